@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from "react";
+import React, { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { createRoot } from "react-dom/client";
 import { GoogleGenAI, LiveServerMessage, Modality } from "@google/genai";
 import { 
@@ -20,7 +20,19 @@ import {
   Trash2,
   Plus,
   Sparkles,
-  Key
+  Key,
+  Layers,
+  Eye,
+  Download,
+  Upload,
+  History,
+  Search,
+  ChevronLeft,
+  SkipBack,
+  SkipForward,
+  Repeat1,
+  CalendarDays,
+  ChevronRight
 } from "lucide-react";
 
 // --- Types ---
@@ -36,10 +48,66 @@ declare global {
   }
 }
 
+type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+type ReviewLog = {
+  timestamp: number;
+  grade: ReviewGrade;
+  interval: number;
+  ease: number;
+};
+
 type Word = {
   text: string;
   translation: string;
   timestamp: number;
+  // SM-2 scheduling state; interval is in days, due is an epoch ms
+  ease: number;
+  interval: number;
+  reps: number;
+  lapses: number;
+  due: number;
+  history: ReviewLog[];
+  // Multi-word expressions (phrasal verbs, idioms) saved from a selection; absent for single words
+  kind?: 'phrase';
+  // Where the word was picked up, when saved from a lookup
+  context?: string;
+  source?: WordSource;
+  phonetic?: string;
+};
+
+type WordSource = 'live' | 'listen' | 'read';
+
+type WordMeta = Pick<Word, 'kind' | 'context' | 'source' | 'phonetic'>;
+
+type PhraseEntry = {
+  phrase: string;
+  // In Chinese
+  meaning: string;
+  usage: string;
+  example: string;
+  exampleTranslation: string;
+};
+
+type SentenceExplanation = {
+  translation: string;
+  // Grammar points, in Chinese
+  grammar: string[];
+  keyPhrases: { phrase: string; meaning: string }[];
+};
+
+type DictionarySense = {
+  partOfSpeech: string;
+  // In Chinese
+  meaning: string;
+};
+
+type DictionaryEntry = {
+  lemma: string;
+  phonetic: string;
+  senses: DictionarySense[];
+  example: string;
+  exampleTranslation: string;
 };
 
 type Mistake = {
@@ -49,7 +117,51 @@ type Mistake = {
   correctAnswer: string;
   explanation: string;
   timestamp: number;
-  type: 'translation' | 'listening';
+  type: 'translation' | 'listening' | 'speaking';
+  // Re-drill progress: consecutive correct answers on generated variants
+  streak: number;
+  mastered: boolean;
+};
+
+const MISTAKE_TYPES: Mistake['type'][] = ['translation', 'listening', 'speaking'];
+
+const MISTAKE_BADGES: Record<Mistake['type'], { label: string; className: string }> = {
+  translation: { label: '翻译', className: 'bg-rose-50 text-rose-600' },
+  listening: { label: '听力', className: 'bg-indigo-50 text-indigo-600' },
+  speaking: { label: '口语', className: 'bg-amber-50 text-amber-700' },
+};
+
+type NewMistake = Omit<Mistake, 'id' | 'timestamp' | 'streak' | 'mastered'>;
+
+type TranslationDirection = 'cn-en' | 'en-cn';
+
+type Exercise = {
+  type: 'single' | 'multi' | 'blank' | 'full';
+  src: string;
+  options?: string[];
+  answer: string | string[];
+  // Blanks only: other words the sentence takes just as well ("shut" for "close"). Nothing else
+  // counts, since another form of the answer usually has the wrong tense or agreement.
+  acceptedAnswers?: string[];
+  hint?: string;
+  // Chinese → English unless set
+  direction?: TranslationDirection;
+};
+
+// 0–100 per dimension for a free translation, with the grader's rewrite of the learner's attempt
+type TranslationRubric = {
+  accuracy: number;
+  grammar: number;
+  naturalness: number;
+  wordChoice: number;
+  better: string;
+  explanation: string;
+};
+
+type JudgedAnswer = {
+  correct: boolean;
+  explanation: string;
+  rubric?: TranslationRubric;
 };
 
 type TranscriptEntry = {
@@ -57,6 +169,109 @@ type TranscriptEntry = {
   role: 'user' | 'model';
   text: string;
   translation?: string;
+  // Position of this turn in the session recording, in seconds
+  audio?: { start: number; end: number };
+  // The learner talked over the tutor before this turn finished playing
+  interrupted?: boolean;
+};
+
+type LiveSessionRecord = {
+  id: string;
+  topic: string;
+  startedAt: number;
+  endedAt: number;
+  transcript: TranscriptEntry[];
+  audioKey?: string;
+  report?: SpeakingReport;
+};
+
+type SpeakingError = {
+  kind: 'grammar' | 'word-choice';
+  context: string;
+  original: string;
+  corrected: string;
+  explanation: string;
+};
+
+type SpeakingReport = {
+  errors: SpeakingError[];
+  usefulPhrases: { phrase: string; meaning: string }[];
+  fluency: { score: number; summary: string };
+  // Indices into `errors` already copied to the mistakes book
+  addedErrors?: number[];
+};
+
+type StoredAudio = {
+  key: string;
+  blob: Blob;
+  createdAt: number;
+};
+
+// A generated or imported lesson, kept so its route still opens it after a reload
+type StoredLesson =
+  | { id: string; module: 'reading'; createdAt: number; article: ReadingArticle }
+  | { id: string; module: 'listening'; createdAt: number; lesson: ListeningLesson }
+  | { id: string; module: 'translation'; createdAt: number; topic: string; direction: TranslationDirection; exercises: Exercise[] };
+
+type SpeechAccent = 'us' | 'uk' | 'au';
+
+type SpeechSettings = {
+  // A prebuilt TTS voice name, e.g. "Kore"
+  voice: string;
+  accent: SpeechAccent;
+};
+
+type ListeningQuestion = {
+  id: number;
+  type: 'tf' | 'single' | 'multi';
+  text: string;
+  options: string[];
+  answer: string | string[];
+  explanation: string;
+};
+
+type DialogueSpeaker = { name: string; gender: 'female' | 'male' };
+
+type DialogueLine = { speaker: string; text: string };
+
+type ListeningDialogue = {
+  speakers: DialogueSpeaker[];
+  lines: DialogueLine[];
+  questions: ListeningQuestion[];
+};
+
+type ListeningLesson = {
+  story: string;
+  questions: ListeningQuestion[];
+  // Set for dialogue lessons; `story` then holds the script as "Name: line" rows
+  dialogue?: { speakers: DialogueSpeaker[]; lines: DialogueLine[] };
+};
+
+// A sentence of a listening story and where it sits in the lesson audio, in seconds
+type TimedSentence = {
+  text: string;
+  start: number;
+  end: number;
+  // Who says it, in dialogue lessons
+  speaker?: string;
+};
+
+type ReadingQuestionType = 'main-idea' | 'detail' | 'inference' | 'vocabulary';
+
+type ReadingQuestion = {
+  type: ReadingQuestionType;
+  question: string;
+  options: string[];
+  correctIndex: number;
+  explanation: string;
+};
+
+type ReadingArticle = {
+  title: string;
+  content: string;
+  questions: ReadingQuestion[];
+  // Where an imported text came from (file name or "粘贴"); unset for generated articles
+  source?: string;
 };
 
 type DailyConfig = {
@@ -74,6 +289,40 @@ type DailyConfig = {
   readingArticles: { id: number; title: string; source: string; prompt: string }[];
 };
 
+type CEFRLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+type LearnerGoal = 'exam' | 'business' | 'travel';
+
+type AnswerModule = 'listening' | 'dictation' | 'translation' | 'reading' | 'redrill';
+
+type LearnerProfile = {
+  level: CEFRLevel;
+  goals: LearnerGoal[];
+  // English name of the language, as it goes into prompts
+  nativeLanguage: string;
+  levelSource: 'default' | 'manual' | 'placement' | 'auto';
+  levelUpdatedAt: number;
+  // Graded answers since the level last changed, oldest first
+  recentAnswers: { module: AnswerModule; correct: boolean; at: number }[];
+  // Voice for pronunciation buttons and listening lessons
+  speech: SpeechSettings;
+};
+
+type ActivityModule = 'listening' | 'dictation' | 'translation' | 'reading' | 'live' | 'vocabulary' | 'mistakes';
+
+type ActivityEvent = {
+  id: number;
+  at: number;
+  module: ActivityModule;
+  // lesson: a finished exercise set; live: a tutor call; word: a word saved; review: one card or redrill
+  kind: 'lesson' | 'live' | 'word' | 'review';
+  correct?: number;
+  total?: number;
+  seconds?: number;
+};
+
+type NewActivity = Omit<ActivityEvent, 'id' | 'at'>;
+
 // --- Audio Utils ---
 
 function encode(bytes: Uint8Array) {
@@ -95,7 +344,7 @@ function decode(base64: string) {
   return bytes;
 }
 
-function getWavHeader(bufferLength: number, sampleRate: number) {
+function getWavHeader(bufferLength: number, sampleRate: number, numChannels = 1) {
   const buffer = new ArrayBuffer(44);
   const view = new DataView(buffer);
   const writeString = (view: DataView, offset: number, string: string) => {
@@ -109,10 +358,10 @@ function getWavHeader(bufferLength: number, sampleRate: number) {
   writeString(view, 12, 'fmt ');
   view.setUint32(16, 16, true);
   view.setUint16(20, 1, true);
-  view.setUint16(22, 1, true);
+  view.setUint16(22, numChannels, true);
   view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * 2, true);
-  view.setUint16(32, 2, true);
+  view.setUint32(28, sampleRate * 2 * numChannels, true);
+  view.setUint16(32, 2 * numChannels, true);
   view.setUint16(34, 16, true);
   writeString(view, 36, 'data');
   view.setUint32(40, bufferLength, true);
@@ -123,7 +372,9 @@ function createBlob(data: Float32Array): { data: string; mimeType: string } {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
+    // Clamp first: loud input above full scale would otherwise wrap around to the opposite sign.
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 32768 : s * 32767;
   }
   return {
     data: encode(new Uint8Array(int16.buffer)),
@@ -150,126 +401,2432 @@ async function decodeAudioData(
   return buffer;
 }
 
-// --- Shared UI Components ---
+function resampleLinear(samples: Float32Array, fromRate: number, toRate: number) {
+  if (fromRate === toRate) return samples;
+  const ratio = fromRate / toRate;
+  const out = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const pos = i * ratio;
+    const i0 = Math.floor(pos);
+    const i1 = Math.min(i0 + 1, samples.length - 1);
+    out[i] = samples[i0] + (samples[i1] - samples[i0]) * (pos - i0);
+  }
+  return out;
+}
 
-const Tooltip = ({ tooltip, onSave, onClose }: any) => {
-  if (!tooltip || !tooltip.visible) return null;
-  return (
-    <>
-      <div className="fixed inset-0 z-40" onClick={onClose} />
-      <div 
-        className="fixed z-50 bg-slate-800 text-white text-sm p-3 rounded-xl shadow-xl -translate-x-1/2 -translate-y-[110%] w-48 animate-in fade-in zoom-in duration-200"
-        style={{ top: tooltip.y, left: tooltip.x }}
-      >
-         <div className="font-bold mb-1 text-xs text-slate-300 uppercase flex justify-between items-center">
-           <span>{tooltip.word}</span>
-           {!tooltip.loading && (
-             <button 
-              onClick={() => {
-                onSave(tooltip.word, tooltip.definition);
-                onClose();
-              }}
-              className="text-emerald-400 hover:text-emerald-300 p-1"
-             >
-               <Plus size={16} />
-             </button>
-           )}
-         </div>
-         <div className="text-slate-100 mb-1 leading-tight">{tooltip.definition}</div>
-         <div className="absolute top-full left-1/2 -translate-x-1/2 border-8 border-transparent border-t-slate-800"></div>
-      </div>
-    </>
-  );
+// --- Mic Capture ---
+
+const MIC_SAMPLE_RATE = 16000;
+// 100 ms per chunk at 16 kHz
+const MIC_CHUNK_SIZE = 1600;
+
+// Runs on the audio thread: low-pass filters, resamples the device rate down to
+// 16 kHz and posts fixed-size chunks together with their RMS level.
+const MIC_WORKLET_SOURCE = `
+class MicCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, chunkSize } = options.processorOptions;
+    this.step = sampleRate / targetRate;
+    this.chunkSize = chunkSize;
+    this.chunk = new Float32Array(chunkSize);
+    this.filled = 0;
+    this.pos = 0;
+    this.prev = 0;
+    this.filter = sampleRate > targetRate;
+    const w0 = 2 * Math.PI * (targetRate * 0.45) / sampleRate;
+    const alpha = Math.sin(w0) / (2 * Math.SQRT1_2);
+    const cos = Math.cos(w0);
+    const a0 = 1 + alpha;
+    this.b0 = (1 - cos) / 2 / a0; this.b1 = (1 - cos) / a0; this.b2 = this.b0;
+    this.a1 = -2 * cos / a0; this.a2 = (1 - alpha) / a0;
+    this.x1 = 0; this.x2 = 0; this.y1 = 0; this.y2 = 0;
+  }
+
+  emit(v) {
+    this.chunk[this.filled++] = v;
+    if (this.filled < this.chunkSize) return;
+    let sum = 0;
+    for (let i = 0; i < this.chunkSize; i++) sum += this.chunk[i] * this.chunk[i];
+    const pcm = this.chunk;
+    this.port.postMessage({ pcm, rms: Math.sqrt(sum / this.chunkSize) }, [pcm.buffer]);
+    this.chunk = new Float32Array(this.chunkSize);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+    for (let i = 0; i < input.length; i++) {
+      let x = input[i];
+      if (this.filter) {
+        const y = this.b0 * x + this.b1 * this.x1 + this.b2 * this.x2 - this.a1 * this.y1 - this.a2 * this.y2;
+        this.x2 = this.x1; this.x1 = x; this.y2 = this.y1; this.y1 = y;
+        x = y;
+      }
+      while (this.pos <= 1) {
+        this.emit(this.prev + (x - this.prev) * this.pos);
+        this.pos += this.step;
+      }
+      this.pos -= 1;
+      this.prev = x;
+    }
+    return true;
+  }
+}
+registerProcessor('mic-capture', MicCaptureProcessor);
+`;
+
+type MicChunk = { pcm: Float32Array; rms: number };
+
+class MicCapture {
+  private constructor(readonly context: AudioContext, private node: AudioWorkletNode, private source: MediaStreamAudioSourceNode, private stream: MediaStream) {}
+
+  static async start(onChunk: (chunk: MicChunk) => void): Promise<MicCapture> {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true, autoGainControl: true } });
+    // Let the browser pick the device rate; resampling happens in the worklet.
+    const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+    try {
+      const url = URL.createObjectURL(new Blob([MIC_WORKLET_SOURCE], { type: 'application/javascript' }));
+      try { await context.audioWorklet.addModule(url); } finally { URL.revokeObjectURL(url); }
+      const node = new AudioWorkletNode(context, 'mic-capture', { processorOptions: { targetRate: MIC_SAMPLE_RATE, chunkSize: MIC_CHUNK_SIZE } });
+      node.port.onmessage = (e) => onChunk(e.data);
+      const source = context.createMediaStreamSource(stream);
+      source.connect(node);
+      return new MicCapture(context, node, source, stream);
+    } catch (e) {
+      stream.getTracks().forEach(t => t.stop());
+      context.close().catch(() => {});
+      throw e;
+    }
+  }
+
+  stop() {
+    this.node.port.onmessage = null;
+    this.source.disconnect();
+    this.node.disconnect();
+    this.stream.getTracks().forEach(t => t.stop());
+    if (this.context.state !== 'closed') this.context.close().catch(() => {});
+  }
+}
+
+type VadEvent = { type: 'start'; preRoll: Float32Array[] } | { type: 'end' } | null;
+
+// Energy-based voice activity detection with an adaptive noise floor,
+// a short pre-roll so word onsets aren't clipped, and a hangover before closing a turn.
+class VoiceActivityDetector {
+  speaking = false;
+  private noiseFloor = 0.005;
+  private silentMs = 0;
+  private preRoll: Float32Array[] = [];
+
+  constructor(private hangoverMs = 800, private preRollMs = 300) {}
+
+  push({ pcm, rms }: MicChunk): VadEvent {
+    const chunkMs = (pcm.length / MIC_SAMPLE_RATE) * 1000;
+    const openAt = Math.max(0.015, this.noiseFloor * 3.5);
+    const closeAt = Math.max(0.01, this.noiseFloor * 2);
+
+    if (!this.speaking) {
+      this.noiseFloor = Math.max(0.002, this.noiseFloor * 0.95 + rms * 0.05);
+      if (rms > openAt) {
+        this.speaking = true; this.silentMs = 0;
+        const preRoll = this.preRoll;
+        this.preRoll = [];
+        return { type: 'start', preRoll };
+      }
+      this.preRoll.push(pcm);
+      while (this.preRoll.length * chunkMs > this.preRollMs) this.preRoll.shift();
+      return null;
+    }
+
+    this.silentMs = rms < closeAt ? this.silentMs + chunkMs : 0;
+    if (this.silentMs >= this.hangoverMs) {
+      this.speaking = false;
+      return { type: 'end' };
+    }
+    return null;
+  }
+}
+
+// Maps RMS to 0..1 on a 60 dB scale for the level meter.
+function levelFromRms(rms: number) {
+  return Math.max(0, Math.min(1, (20 * Math.log10(rms || 1e-6) + 60) / 60));
+}
+
+// Pushes meter levels straight to whoever subscribed, so a 10 Hz level doesn't re-render the call screen.
+type LevelFeed = { set: (level: number) => void; subscribe: (listener: (level: number) => void) => () => void };
+
+function createLevelFeed(): LevelFeed {
+  const listeners = new Set<(level: number) => void>();
+  return {
+    set: level => listeners.forEach(listener => listener(level)),
+    subscribe: listener => { listeners.add(listener); return () => { listeners.delete(listener); }; },
+  };
+}
+
+const RECORDING_SAMPLE_RATE = 24000;
+const MAX_RECORDING_SECONDS = 30 * 60;
+// Audio further back than this is final: later chunks and truncations only touch the last few seconds.
+const RECORDING_FLUSH_SECONDS = 10;
+
+// Collects both sides of a live call on one timeline and renders them as a
+// stereo WAV: learner on the left channel, tutor on the right. Finished audio
+// is interleaved into Blob parts as the call goes on, so only the last few
+// seconds are held as raw samples.
+class SessionRecorder {
+  private parts: Blob[] = [];
+  // Frames already interleaved into `parts`
+  private written = 0;
+  private chunks: { channel: 0 | 1; offset: number; samples: Int16Array }[] = [];
+  private length = 0;
+
+  // `at` is seconds since the session started; samples are resampled to the recording rate.
+  add(channel: 0 | 1, at: number, samples: Float32Array, sampleRate: number) {
+    const offset = Math.max(0, Math.round(at * RECORDING_SAMPLE_RATE));
+    if (offset > MAX_RECORDING_SECONDS * RECORDING_SAMPLE_RATE) return;
+    const resampled = resampleLinear(samples, sampleRate, RECORDING_SAMPLE_RATE);
+    const pcm = new Int16Array(resampled.length);
+    for (let i = 0; i < resampled.length; i++) pcm[i] = Math.max(-32768, Math.min(32767, Math.round(resampled[i] * 32767)));
+    this.chunks.push({ channel, offset, samples: pcm });
+    this.length = Math.max(this.length, offset + pcm.length);
+    const flushFrames = RECORDING_FLUSH_SECONDS * RECORDING_SAMPLE_RATE;
+    if (offset - this.written > 2 * flushFrames) this.flush(offset - flushFrames);
+  }
+
+  get isEmpty() {
+    return this.length === 0;
+  }
+
+  // Drops audio on `channel` from `at` onwards, e.g. tutor audio that was queued but never played.
+  truncate(channel: 0 | 1, at: number) {
+    const cut = Math.max(this.written, Math.round(at * RECORDING_SAMPLE_RATE));
+    this.chunks = this.chunks
+      .filter(c => c.channel !== channel || c.offset < cut)
+      .map(c => c.channel === channel && c.offset + c.samples.length > cut ? { ...c, samples: c.samples.slice(0, cut - c.offset) } : c);
+    this.length = this.chunks.reduce((max, c) => Math.max(max, c.offset + c.samples.length), this.written);
+  }
+
+  // Interleaves every frame before `end` into a new part and releases those samples.
+  private flush(end: number) {
+    if (end <= this.written) return;
+    const block = new Int16Array((end - this.written) * 2);
+    const rest: typeof this.chunks = [];
+    for (const c of this.chunks) {
+      const from = Math.max(c.offset, this.written), to = Math.min(c.offset + c.samples.length, end);
+      for (let i = from; i < to; i++) {
+        const idx = (i - this.written) * 2 + c.channel;
+        block[idx] = Math.max(-32768, Math.min(32767, block[idx] + c.samples[i - c.offset]));
+      }
+      if (c.offset + c.samples.length > end) rest.push(c.offset >= end ? c : { ...c, offset: end, samples: c.samples.slice(end - c.offset) });
+    }
+    this.parts.push(new Blob([block.buffer]));
+    this.chunks = rest;
+    this.written = end;
+  }
+
+  toWav(): Blob {
+    this.flush(this.length);
+    return new Blob([getWavHeader(this.written * 4, RECORDING_SAMPLE_RATE, 2), ...this.parts], { type: 'audio/wav' });
+  }
+}
+
+// Plays [start, end) of a recorded session, downmixed to mono so both speakers come from the centre.
+// Only that stretch of the WAV is decoded; a whole session decoded at the context's rate runs to
+// gigabytes of float PCM. `ctx` is shared by every replay in the history view.
+async function playRecordingSegment(ctx: AudioContext, blob: Blob, start: number, end: number): Promise<() => void> {
+  const byteAt = (seconds: number) => Math.min(blob.size, 44 + Math.max(0, Math.round(seconds * RECORDING_SAMPLE_RATE)) * 4);
+  const pcm = blob.slice(byteAt(start), Math.max(byteAt(start), byteAt(end)));
+  const segment = new Blob([getWavHeader(pcm.size, RECORDING_SAMPLE_RATE, 2), pcm], { type: 'audio/wav' });
+  const buffer = await ctx.decodeAudioData(await segment.arrayBuffer());
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  const mono = ctx.createGain();
+  mono.channelCount = 1;
+  mono.channelCountMode = 'explicit';
+  source.connect(mono); mono.connect(ctx.destination);
+  const stop = () => { try { source.stop(); } catch {} source.disconnect(); mono.disconnect(); };
+  source.onended = stop;
+  source.start();
+  return stop;
+}
+
+// --- AI Provider Layer ---
+
+// Every model call goes through an AIProvider so the app can run against Gemini,
+// an OpenAI-compatible server (text only) or offline fixtures.
+// Select one with AI_PROVIDER=gemini|openai|mock in .env.local.
+
+type AITask =
+  | 'dailyConfig'
+  | 'listeningLesson'
+  | 'listeningDialogue'
+  | 'translationExercises'
+  | 'translationJudge'
+  | 'exerciseVariant'
+  | 'readingArticle'
+  | 'readingQuestions'
+  | 'simplifyText'
+  | 'wordLookup'
+  | 'phraseLookup'
+  | 'sentenceExplain'
+  | 'translate'
+  | 'speakingReport';
+
+type LiveConnectParams = {
+  systemInstruction: string;
+  // Handle from the last `sessionResumptionUpdate`, to pick up a dropped call where it left off.
+  resumptionHandle?: string;
+  callbacks: {
+    onopen?: () => void;
+    onmessage: (msg: LiveServerMessage) => void;
+    onclose?: (e: CloseEvent) => void;
+    onerror?: (e: ErrorEvent) => void;
+  };
+};
+
+// Server-side voice detection is off; the client marks each learner turn with activityStart/activityEnd.
+type LiveSessionHandle = {
+  sendRealtimeInput: (input: { audio?: { data: string; mimeType: string }; activityStart?: {}; activityEnd?: {} }) => void;
+  close: () => void;
+};
+
+interface AIProvider {
+  readonly id: 'gemini' | 'openai' | 'mock';
+  // Only the Gemini backend goes through the AI Studio key picker.
+  readonly requiresApiKey: boolean;
+  generateText(prompt: string, task: AITask): Promise<string>;
+  generateJSON<T = any>(prompt: string, task: AITask): Promise<T>;
+  // Returns raw 24 kHz mono PCM16. `style` tells the voice how to speak; it is never read aloud.
+  synthesizeSpeech(text: string, voice?: string, style?: string): Promise<Uint8Array | null>;
+  connectLive(params: LiveConnectParams): Promise<LiveSessionHandle>;
+}
+
+const GEMINI_TEXT_MODEL = "gemini-3-flash-preview";
+const GEMINI_TTS_MODEL = "gemini-2.5-flash-preview-tts";
+const GEMINI_LIVE_MODEL = "gemini-2.5-flash-native-audio-preview-09-2025";
+const DEFAULT_VOICE = "Kore";
+
+function parseJSONText(text: string | undefined) {
+  const cleaned = (text || "").trim().replace(/^```(?:json)?\s*/i, "").replace(/```$/, "").trim();
+  return JSON.parse(cleaned || "{}");
+}
+
+class GeminiProvider implements AIProvider {
+  readonly id = 'gemini';
+  readonly requiresApiKey = true;
+
+  // A fresh client per call so a key picked mid-session is used straight away.
+  private client() {
+    return new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+
+  async generateText(prompt: string) {
+    const result = await this.client().models.generateContent({ model: GEMINI_TEXT_MODEL, contents: prompt });
+    return result.text?.trim() || "";
+  }
+
+  async generateJSON(prompt: string) {
+    const result = await this.client().models.generateContent({ model: GEMINI_TEXT_MODEL, contents: prompt, config: { responseMimeType: "application/json" } });
+    return parseJSONText(result.text);
+  }
+
+  async synthesizeSpeech(text: string, voice = DEFAULT_VOICE, style?: string) {
+    const result = await this.client().models.generateContent({
+      model: GEMINI_TTS_MODEL,
+      contents: { parts: [{ text }] },
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } } },
+        ...(style && { systemInstruction: style }),
+      }
+    });
+    const base64Audio = result.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    return base64Audio ? decode(base64Audio) : null;
+  }
+
+  connectLive({ systemInstruction, resumptionHandle, callbacks }: LiveConnectParams): Promise<LiveSessionHandle> {
+    return this.client().live.connect({
+      model: GEMINI_LIVE_MODEL,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        realtimeInputConfig: { automaticActivityDetection: { disabled: true } },
+        // Resumable sessions survive network drops; the sliding window lifts the audio session length limit.
+        sessionResumption: resumptionHandle ? { handle: resumptionHandle } : {},
+        contextWindowCompression: { slidingWindow: {} },
+        systemInstruction,
+      },
+      callbacks: {
+        onopen: () => callbacks.onopen?.(),
+        onmessage: callbacks.onmessage,
+        onclose: (e: CloseEvent) => callbacks.onclose?.(e),
+        onerror: (e: ErrorEvent) => callbacks.onerror?.(e),
+      }
+    });
+  }
+}
+
+class OpenAICompatibleProvider implements AIProvider {
+  readonly id = 'openai';
+  readonly requiresApiKey = false;
+
+  constructor(
+    private baseUrl = process.env.OPENAI_BASE_URL || "http://localhost:11434/v1",
+    private model = process.env.OPENAI_MODEL || "qwen2.5:7b",
+    private apiKey = process.env.OPENAI_API_KEY || "",
+  ) {}
+
+  private async complete(prompt: string, json: boolean) {
+    const resp = await fetch(`${this.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}) },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          ...(json ? [{ role: "system", content: "Respond with valid JSON only, no markdown." }] : []),
+          { role: "user", content: prompt },
+        ],
+      }),
+    });
+    if (!resp.ok) throw new Error(`OpenAI-compatible backend error: ${resp.status}`);
+    const body = await resp.json();
+    return String(body.choices?.[0]?.message?.content ?? "");
+  }
+
+  async generateText(prompt: string) {
+    return (await this.complete(prompt, false)).trim();
+  }
+
+  async generateJSON(prompt: string) {
+    return parseJSONText(await this.complete(prompt, true));
+  }
+
+  // Text only: callers fall back to the browser voice or a lesson without audio.
+  async synthesizeSpeech(): Promise<Uint8Array | null> {
+    return null;
+  }
+
+  async connectLive(): Promise<LiveSessionHandle> {
+    throw new Error("OpenAI-compatible backend does not support live audio");
+  }
+}
+
+// --- Mock Provider Fixtures ---
+
+const MOCK_FIXTURES: Record<AITask, (prompt: string) => any> = {
+  dailyConfig: (prompt) => ({
+    date: prompt.match(/date: (\d{4}-\d{2}-\d{2})/)?.[1] || "2025-01-01",
+    dailyWord: { word: "resilience", phonetic: "/rɪˈzɪl.jəns/", translation: "韧性；恢复力", example: "Building resilience helps you adapt to life's misfortunes.", exampleCn: "建立韧性有助于你适应生活中的不幸。" },
+    liveTopics: [
+      { name: "Ordering Coffee", icon: "☕" }, { name: "Job Interview", icon: "💼" }, { name: "Weekend Plans", icon: "🏕️" }, { name: "Travel Check-in", icon: "✈️" },
+      { name: "Doctor Visit", icon: "🩺" }, { name: "Small Talk", icon: "👋" }, { name: "Shopping", icon: "🛍️" }, { name: "Movie Review", icon: "🎬" },
+    ],
+    listeningTopics: ["A Rainy Morning Commute", "The Lost Umbrella", "Moving to a New City", "A Surprise Party", "Learning to Cook"],
+    translationTopics: ["Daily Routine", "Workplace Email", "Travel Plans", "Health Habits", "Technology"],
+    readingArticles: [
+      { id: 1, title: "The Quiet Power of Walking", source: "The Guardian", prompt: "Write a 200-word article about the benefits of walking" },
+      { id: 2, title: "Why Cities Are Planting Forests", source: "The Economist", prompt: "Write a 200-word article about urban forests" },
+      { id: 3, title: "Sleep and Memory", source: "Scientific American", prompt: "Write a 200-word article about how sleep affects memory" },
+      { id: 4, title: "The Four-Day Work Week", source: "BBC", prompt: "Write a 200-word article about the four-day work week" },
+    ],
+  }),
+  listeningLesson: () => ({
+    story: "Tom missed his usual bus on Monday morning because his alarm did not ring. He decided to walk to the office instead. On the way, it started to rain heavily, and he realised he had left his umbrella at home. A kind stranger at a bus stop offered to share her umbrella with him. They talked about their jobs and found out they worked in the same building. Tom arrived twenty minutes late, but he was smiling. His manager was not angry, because the whole team had been delayed by the storm. From that day on, Tom and the stranger met for coffee every Friday.",
+    questions: [
+      { id: 1, type: "tf", text: "Tom's alarm rang on time on Monday.", options: ["T: True", "F: False"], answer: "F", explanation: "故事开头说闹钟没有响。" },
+      { id: 2, type: "tf", text: "Tom's manager was angry with him.", options: ["T: True", "F: False"], answer: "F", explanation: "经理没有生气，因为整个团队都被暴雨耽误了。" },
+      { id: 3, type: "single", text: "Why did Tom get wet?", options: ["A: He fell into a puddle", "B: He left his umbrella at home", "C: The bus was full", "D: He lost his coat"], answer: "B", explanation: "他把伞忘在家里了。" },
+      { id: 4, type: "single", text: "How late was Tom?", options: ["A: Ten minutes", "B: Fifteen minutes", "C: Twenty minutes", "D: An hour"], answer: "C", explanation: "原文：Tom arrived twenty minutes late." },
+      { id: 5, type: "multi", text: "Which statements are true about the stranger?", options: ["A: She shared her umbrella", "B: She worked in the same building", "C: She was Tom's manager", "D: She meets Tom on Fridays"], answer: ["A", "B", "D"], explanation: "她不是 Tom 的经理。" },
+    ],
+  }),
+  listeningDialogue: () => ({
+    speakers: [{ name: "Anna", gender: "female" }, { name: "Ben", gender: "male" }],
+    lines: [
+      { speaker: "Anna", text: "Ben, are you still coming to the concert on Saturday?" },
+      { speaker: "Ben", text: "I'd love to, but my sister is moving house that day. I promised to help her." },
+      { speaker: "Anna", text: "Oh, that's a shame. The tickets were quite expensive." },
+      { speaker: "Ben", text: "I know, I'm really sorry. Could you sell my ticket to someone else?" },
+      { speaker: "Anna", text: "Maybe. My colleague Lucy said she wanted to go." },
+      { speaker: "Ben", text: "Great. I'll pay you back if she can't take it." },
+      { speaker: "Anna", text: "Don't worry about it. Let's have dinner next week instead." },
+      { speaker: "Ben", text: "Deal. Dinner is on me, then." },
+    ],
+    questions: [
+      { id: 1, type: "tf", text: "Ben can go to the concert on Saturday.", options: ["T: True", "F: False"], answer: "F", explanation: "Ben 要帮妹妹搬家，去不了。" },
+      { id: 2, type: "tf", text: "Anna mentions that the tickets were expensive.", options: ["T: True", "F: False"], answer: "T", explanation: "Anna 说 The tickets were quite expensive." },
+      { id: 3, type: "single", text: "Why can't Ben go to the concert?", options: ["A: He is ill", "B: He has to work", "C: He promised to help his sister move", "D: He doesn't like the band"], answer: "C", explanation: "Ben 答应帮妹妹搬家。" },
+      { id: 4, type: "single", text: "Who suggests having dinner next week?", options: ["A: Anna", "B: Ben", "C: Lucy", "D: Ben's sister"], answer: "A", explanation: "是 Anna 提议下周一起吃饭。" },
+      { id: 5, type: "multi", text: "Which of these does Ben say?", options: ["A: He is sorry", "B: He will pay her back if needed", "C: Lucy wants to go", "D: Dinner is on him"], answer: ["A", "B", "D"], explanation: "提到 Lucy 的是 Anna。" },
+    ],
+  }),
+  translationExercises: (prompt) => prompt.includes("English-to-Chinese") ? [
+    { type: "single", src: "She has lived here for five years.", options: ["A: 她五年前住在这里。", "B: 她已经在这里住了五年了。", "C: 她将在这里住五年。", "D: 她住在这里五年后离开了。"], answer: "B", hint: "" },
+    { type: "full", src: "I usually go for a walk in the park with my friends at the weekend.", options: [], answer: "周末我通常和朋友去公园散步。", hint: "" },
+    { type: "full", src: "It's never too late to learn something new.", options: [], answer: "学习新东西永远不嫌晚。", hint: "" },
+  ] : [
+    { type: "single", src: "我每天早上七点起床。", options: ["A: I get up at seven every morning.", "B: I got up at seven every mornings.", "C: I getting up at seven each morning.", "D: I am get up at seven every morning."], answer: "A", hint: "" },
+    { type: "single", src: "她已经在这里住了五年了。", options: ["A: She lives here for five years.", "B: She has lived here for five years.", "C: She is living here since five years.", "D: She lived here five years ago."], answer: "B", hint: "" },
+    { type: "multi", src: "他不喜欢喝咖啡。", options: ["A: He doesn't like coffee.", "B: He dislikes drinking coffee.", "C: He not likes coffee.", "D: He isn't a fan of coffee."], answer: ["A", "B", "D"], hint: "" },
+    { type: "blank", src: "Please _____ the door when you leave.", options: [], answer: "close", acceptedAnswers: ["shut"], hint: "关上" },
+    { type: "full", src: "周末我通常和朋友去公园散步。", options: [], answer: "I usually go for a walk in the park with my friends at the weekend.", hint: "" },
+  ],
+  translationJudge: () => ({ accuracy: 90, grammar: 80, naturalness: 75, wordChoice: 80, better: "（离线模拟）参考改写版本。", explanation: "（离线模拟）翻译基本准确，个别用词可以更地道。" }),
+  exerciseVariant: () => ({ type: "single", src: "我们已经认识十年了。", options: ["A: We know each other for ten years.", "B: We have known each other for ten years.", "C: We are knowing each other for ten years.", "D: We knew each other since ten years."], answer: "B", hint: "" }),
+  readingArticle: () => ({
+    title: "The Quiet Power of Walking",
+    content: "Walking is one of the simplest forms of exercise, yet its benefits are remarkable. Researchers have found that a brisk thirty-minute walk each day can lower blood pressure, improve mood and even boost creativity.\n\nUnlike running, walking puts little stress on the joints, which makes it suitable for people of almost every age. Many office workers now hold \"walking meetings\", claiming that ideas flow more freely when they are on the move.\n\nPerhaps the greatest advantage of walking is that it requires no special equipment. All you need is a comfortable pair of shoes and a little time.",
+    questions: [
+      { type: "main-idea", question: "What is the passage mainly about?", options: ["A: Why walking is a valuable form of exercise", "B: How to choose walking shoes", "C: The history of walking meetings", "D: Why running hurts the joints"], correctIndex: 0, explanation: "全文围绕步行的各种好处展开。" },
+      { type: "detail", question: "What is the main advantage of walking mentioned at the end?", options: ["A: It burns more calories than running", "B: It needs no special equipment", "C: It is popular in offices", "D: It improves memory"], correctIndex: 1, explanation: "最后一段指出步行最大的优点是不需要特殊装备。" },
+      { type: "vocabulary", question: "The word \"brisk\" in the first paragraph is closest in meaning to:", options: ["A: slow", "B: quick and energetic", "C: long", "D: lonely"], correctIndex: 1, explanation: "brisk 意为“轻快的、有活力的”。" },
+    ],
+  }),
+  readingQuestions: () => ({
+    questions: [
+      { type: "main-idea", question: "（模拟题）What is the text mainly about?", options: ["A: Its central topic", "B: A minor detail", "C: An unrelated event", "D: The author's childhood"], correctIndex: 0, explanation: "（离线模拟）主旨题。" },
+      { type: "detail", question: "（模拟题）Which detail is mentioned in the text?", options: ["A: Something not stated", "B: A fact from the second paragraph", "C: A future plan", "D: A famous quote"], correctIndex: 1, explanation: "（离线模拟）细节题。" },
+      { type: "inference", question: "（模拟题）What can be inferred from the text?", options: ["A: The opposite of the main point", "B: Nothing at all", "C: A reasonable conclusion", "D: A random guess"], correctIndex: 2, explanation: "（离线模拟）推断题。" },
+    ],
+  }),
+  // Echo the text back so offline simplification is visibly a no-op rather than a made-up article.
+  simplifyText: (prompt) => prompt.match(/"""\n([\s\S]*)\n"""/)?.[1] || "",
+  wordLookup: (prompt) => {
+    const word = prompt.match(/"([^"]+)"/)?.[1] || "";
+    return { lemma: word.toLowerCase(), phonetic: "/ˈmɒk/", senses: [{ partOfSpeech: "n.", meaning: `（模拟释义）${word}` }, { partOfSpeech: "v.", meaning: "（模拟第二义项）" }], example: `Here is "${word}" in a sentence.`, exampleTranslation: "（模拟例句翻译）" };
+  },
+  translate: () => "（离线模拟翻译）",
+  phraseLookup: (prompt) => {
+    const phrase = prompt.match(/"([^"]+)"/)?.[1] || "";
+    return { phrase: phrase.toLowerCase(), meaning: `（模拟释义）${phrase}`, usage: "（模拟用法说明）常用于口语。", example: `They used "${phrase}" in the meeting.`, exampleTranslation: "（模拟例句翻译）" };
+  },
+  sentenceExplain: () => ({
+    translation: "（模拟整句翻译）",
+    grammar: ["（模拟语法点）主句为一般过去时。", "（模拟语法点）because 引导原因状语从句。"],
+    keyPhrases: [{ phrase: "on the way", meaning: "在路上" }],
+  }),
+  speakingReport: () => ({
+    errors: [
+      { kind: "grammar", context: "I go to the park yesterday with my friend.", original: "I go to the park yesterday", corrected: "I went to the park yesterday", explanation: "yesterday 表示过去，动词要用过去式 went。" },
+      { kind: "word-choice", context: "After work I usually make my homework for the evening class.", original: "make my homework", corrected: "do my homework", explanation: "homework 的固定搭配是 do，不说 make。" },
+    ],
+    usefulPhrases: [
+      { phrase: "Could you say a bit more about that?", meaning: "你能再多说一点吗？" },
+      { phrase: "Just a small tip", meaning: "一个小建议" },
+    ],
+    fluency: { score: 7, summary: "（离线模拟）表达基本流畅，能完成简单交流，注意动词时态。" },
+  }),
+};
+
+const MOCK_LIVE_REPLIES = [
+  "Hi there! I'm your English tutor today. Tell me a little about yourself.",
+  "That sounds great. Could you say a bit more about that?",
+  "Nice! Just a small tip: we say \"I went there yesterday\", not \"I go there yesterday\".",
+  "Good job. What would you like to talk about next?",
+];
+
+const MOCK_USER_LINES = [
+  "Hello, my name is Alex and I work in Shanghai.",
+  "I go to the park yesterday with my friend.",
+  "Sorry, I went to the park yesterday.",
+];
+
+// A quiet tone roughly as long as the text would take to say, so playback timing behaves like real TTS.
+function mockSpeechPcm(text: string, sampleRate = 24000) {
+  const seconds = Math.min(8, 0.3 + text.split(/\s+/).length * 0.25);
+  const samples = new Int16Array(Math.floor(seconds * sampleRate));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(Math.sin((2 * Math.PI * 220 * i) / sampleRate) * 1500);
+  }
+  return new Uint8Array(samples.buffer);
+}
+
+class MockProvider implements AIProvider {
+  readonly id = 'mock';
+  readonly requiresApiKey = false;
+
+  async generateText(prompt: string, task: AITask) {
+    return String(MOCK_FIXTURES[task](prompt));
+  }
+
+  async generateJSON(prompt: string, task: AITask) {
+    return structuredClone(MOCK_FIXTURES[task](prompt));
+  }
+
+  async synthesizeSpeech(text: string) {
+    return mockSpeechPcm(text);
+  }
+
+  async connectLive({ resumptionHandle, callbacks }: LiveConnectParams): Promise<LiveSessionHandle> {
+    // Handles encode the turn counter, so a resumed mock call carries on instead of greeting again.
+    const resumedTurn = Number(resumptionHandle?.match(/^mock-turn-(\d+)$/)?.[1]);
+    let closed = false, heardAudio = false, turn = resumedTurn || 0;
+    const timers = new Set<ReturnType<typeof setTimeout>>();
+    const later = (ms: number, fn: () => void) => {
+      const t = setTimeout(() => { timers.delete(t); if (!closed) fn(); }, ms);
+      timers.add(t);
+    };
+    const emit = (serverContent: any) => callbacks.onmessage({ serverContent } as LiveServerMessage);
+    // Replies stream one sentence at a time, like the real server, so they can be talked over.
+    let replying = new Set<ReturnType<typeof setTimeout>>();
+    const reply = (userText: string | null) => {
+      const text = MOCK_LIVE_REPLIES[turn % MOCK_LIVE_REPLIES.length];
+      turn++;
+      if (userText) emit({ inputTranscription: { text: userText } });
+      const sentences = text.match(/[^.!?]+[.!?]*\s*/g) || [text];
+      const pending = new Set<ReturnType<typeof setTimeout>>();
+      replying = pending;
+      sentences.forEach((sentence, i) => {
+        const t = setTimeout(() => {
+          pending.delete(t); timers.delete(t);
+          if (closed) return;
+          emit({ outputTranscription: { text: sentence } });
+          emit({ modelTurn: { parts: [{ inlineData: { data: encode(mockSpeechPcm(sentence)), mimeType: 'audio/pcm;rate=24000' } }] } });
+          if (i === sentences.length - 1) {
+            emit({ turnComplete: true });
+            callbacks.onmessage({ sessionResumptionUpdate: { newHandle: `mock-turn-${turn}`, resumable: true } } as LiveServerMessage);
+          }
+        }, i * 700);
+        pending.add(t); timers.add(t);
+      });
+    };
+
+    later(300, () => { callbacks.onopen?.(); if (!resumedTurn) later(500, () => reply(null)); });
+
+    return {
+      // The mock tutor answers each learner turn once it ends, whatever was said.
+      sendRealtimeInput: (input) => {
+        if (closed) return;
+        if (input.audio) heardAudio = true;
+        if (input.activityStart && replying.size) {
+          replying.forEach(t => { clearTimeout(t); timers.delete(t); });
+          replying.clear();
+          emit({ interrupted: true });
+        }
+        if (input.activityEnd && heardAudio) {
+          heardAudio = false;
+          later(400, () => reply(MOCK_USER_LINES[(turn - 1) % MOCK_USER_LINES.length]));
+        }
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        timers.forEach(clearTimeout);
+        callbacks.onclose?.(new CloseEvent('close'));
+      },
+    };
+  }
+}
+
+let providerInstance: AIProvider | null = null;
+
+function getAIProvider(): AIProvider {
+  if (!providerInstance) {
+    const kind = process.env.AI_PROVIDER;
+    providerInstance = kind === 'mock' ? new MockProvider() : kind === 'openai' ? new OpenAICompatibleProvider() : new GeminiProvider();
+  }
+  return providerInstance;
+}
+
+// --- Response Schemas ---
+
+// Minimal runtime validators for model output. A schema returns the (possibly
+// normalised) value and pushes human-readable issues that are fed back to the
+// model in a corrective re-prompt.
+
+type Schema<T> = (value: unknown, path: string, issues: string[]) => T;
+
+const fail = (issues: string[], path: string, msg: string) => { issues.push(`${path || "(root)"}: ${msg}`); };
+
+const str = (opts: { min?: number } = {}): Schema<string> => (v, path, issues) => {
+  if (typeof v !== 'string') { fail(issues, path, "expected string"); return ""; }
+  if (opts.min && v.trim().length < opts.min) fail(issues, path, `expected at least ${opts.min} characters`);
+  return v;
+};
+
+const num = (): Schema<number> => (v, path, issues) => {
+  // Models sometimes quote numbers; accept them rather than re-prompting.
+  const n = typeof v === 'string' && v.trim() !== "" ? Number(v) : v;
+  if (typeof n !== 'number' || Number.isNaN(n)) { fail(issues, path, "expected number"); return 0; }
+  return n;
+};
+
+const bool = (): Schema<boolean> => (v, path, issues) => {
+  if (typeof v !== 'boolean') { fail(issues, path, "expected boolean"); return false; }
+  return v;
+};
+
+const oneOf = <T extends string>(...values: T[]): Schema<T> => (v, path, issues) => {
+  if (!values.includes(v as T)) { fail(issues, path, `expected one of ${values.map(x => JSON.stringify(x)).join(", ")}`); return values[0]; }
+  return v as T;
+};
+
+const arr = <T,>(item: Schema<T>, opts: { min?: number; max?: number } = {}): Schema<T[]> => (v, path, issues) => {
+  if (!Array.isArray(v)) { fail(issues, path, "expected array"); return []; }
+  if (opts.min !== undefined && v.length < opts.min) fail(issues, path, `expected at least ${opts.min} items, got ${v.length}`);
+  if (opts.max !== undefined && v.length > opts.max) fail(issues, path, `expected at most ${opts.max} items, got ${v.length}`);
+  return v.map((x, i) => item(x, `${path}[${i}]`, issues));
+};
+
+const obj = <T,>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> => (v, path, issues) => {
+  if (typeof v !== 'object' || v === null || Array.isArray(v)) { fail(issues, path, "expected object"); return {} as T; }
+  const out: any = {};
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    out[key] = shape[key]((v as any)[key], path ? `${path}.${key}` : key, issues);
+  }
+  return out;
+};
+
+const optional = <T,>(schema: Schema<T>): Schema<T | undefined> => (v, path, issues) => v === undefined || v === null ? undefined : schema(v, path, issues);
+
+const strOrStrArr = (): Schema<string | string[]> => (v, path, issues) => Array.isArray(v) ? arr(str())(v, path, issues) : str()(v, path, issues);
+
+// Cross-field checks that a plain shape can't express.
+const refine = <T,>(schema: Schema<T>, check: (value: T) => string | null): Schema<T> => (v, path, issues) => {
+  const before = issues.length;
+  const value = schema(v, path, issues);
+  if (issues.length === before) {
+    const msg = check(value);
+    if (msg) fail(issues, path, msg);
+  }
+  return value;
+};
+
+const optionLabels = (options: string[]) => options.map(o => o.split(":")[0].trim());
+
+const answerMatchesOptions = (answer: string | string[], options: string[], multi: boolean) => {
+  const labels = optionLabels(options);
+  if (multi) return Array.isArray(answer) && answer.length > 0 && answer.every(a => labels.includes(a)) ? null : `answer must be a non-empty array of option labels (${labels.join(", ")})`;
+  return typeof answer === 'string' && labels.includes(answer) ? null : `answer must be one of the option labels (${labels.join(", ")})`;
 };
 
-// --- Shared Tooltip Logic Hook ---
+const DailyConfigSchema: Schema<DailyConfig> = obj<DailyConfig>({
+  date: str(),
+  dailyWord: obj<DailyConfig['dailyWord']>({ word: str({ min: 1 }), phonetic: str(), translation: str({ min: 1 }), example: str({ min: 1 }), exampleCn: str() }),
+  liveTopics: arr(obj<{ name: string; icon: string }>({ name: str({ min: 1 }), icon: str() }), { min: 1 }),
+  listeningTopics: arr(str({ min: 1 }), { min: 1 }),
+  translationTopics: arr(str({ min: 1 }), { min: 1 }),
+  readingArticles: arr(obj<DailyConfig['readingArticles'][number]>({ id: num(), title: str({ min: 1 }), source: str(), prompt: str({ min: 1 }) }), { min: 1 }),
+});
+
+const ListeningQuestionSchema: Schema<ListeningQuestion> = refine(
+  obj<ListeningQuestion>({ id: num(), type: oneOf('tf', 'single', 'multi'), text: str({ min: 1 }), options: arr(str({ min: 1 }), { min: 2 }), answer: strOrStrArr(), explanation: str() }),
+  q => answerMatchesOptions(q.answer, q.options, q.type === 'multi')
+);
+
+const ListeningLessonSchema: Schema<ListeningLesson> = refine(
+  obj<ListeningLesson>({ story: str({ min: 20 }), questions: arr(ListeningQuestionSchema, { min: 1 }) }),
+  l => new Set(l.questions.map(q => q.id)).size === l.questions.length ? null : "question ids must be unique"
+);
+
+const ListeningDialogueSchema: Schema<ListeningDialogue> = refine(
+  obj<ListeningDialogue>({
+    speakers: arr(obj<DialogueSpeaker>({ name: str({ min: 1 }), gender: oneOf('female', 'male') }), { min: 2, max: 2 }),
+    lines: arr(obj<DialogueLine>({ speaker: str({ min: 1 }), text: str({ min: 1 }) }), { min: 4 }),
+    questions: arr(ListeningQuestionSchema, { min: 1 }),
+  }),
+  d => {
+    const names = d.speakers.map(sp => sp.name);
+    if (names[0] === names[1]) return "the two speakers need different names";
+    const stray = d.lines.find(l => !names.includes(l.speaker));
+    if (stray) return `line speaker "${stray.speaker}" must be one of ${names.map(n => JSON.stringify(n)).join(", ")}`;
+    return new Set(d.questions.map(q => q.id)).size === d.questions.length ? null : "question ids must be unique";
+  }
+);
+
+const ExerciseSchema: Schema<Exercise> = refine(
+  obj<Exercise>({ type: oneOf('single', 'multi', 'blank', 'full'), src: str({ min: 1 }), options: optional(arr(str())), answer: strOrStrArr(), acceptedAnswers: optional(arr(str({ min: 1 }))), hint: optional(str()) }),
+  e => ['single', 'multi'].includes(e.type) ? ((e.options || []).length < 2 ? "choice exercises need at least 2 options" : answerMatchesOptions(e.answer, e.options || [], e.type === 'multi')) : (typeof e.answer === 'string' && e.answer.trim() ? null : "answer must be a non-empty string")
+);
+
+const ExerciseListSchema: Schema<Exercise[]> = arr(ExerciseSchema, { min: 1 });
+
+const DictionaryEntrySchema: Schema<DictionaryEntry> = obj<DictionaryEntry>({
+  lemma: str({ min: 1 }),
+  phonetic: str(),
+  senses: arr(obj<DictionarySense>({ partOfSpeech: str(), meaning: str({ min: 1 }) }), { min: 1 }),
+  example: str(),
+  exampleTranslation: str(),
+});
+
+const PhraseEntrySchema: Schema<PhraseEntry> = obj<PhraseEntry>({
+  phrase: str({ min: 1 }),
+  meaning: str({ min: 1 }),
+  usage: str(),
+  example: str(),
+  exampleTranslation: str(),
+});
+
+const SentenceExplanationSchema: Schema<SentenceExplanation> = obj<SentenceExplanation>({
+  translation: str({ min: 1 }),
+  grammar: arr(str({ min: 1 })),
+  keyPhrases: arr(obj<{ phrase: string; meaning: string }>({ phrase: str({ min: 1 }), meaning: str() })),
+});
+
+const score100 = (): Schema<number> => refine(num(), n => n >= 0 && n <= 100 ? null : "score must be between 0 and 100");
+
+const TranslationRubricSchema: Schema<TranslationRubric> = obj<TranslationRubric>({ accuracy: score100(), grammar: score100(), naturalness: score100(), wordChoice: score100(), better: str(), explanation: str() });
+
+const ReadingQuestionSchema: Schema<ReadingQuestion> = refine(
+  obj<ReadingQuestion>({ type: oneOf('main-idea', 'detail', 'inference', 'vocabulary'), question: str({ min: 1 }), options: arr(str({ min: 1 }), { min: 2 }), correctIndex: num(), explanation: str() }),
+  q => Number.isInteger(q.correctIndex) && q.correctIndex >= 0 && q.correctIndex < q.options.length ? null : `correctIndex must be an integer between 0 and ${q.options.length - 1}`
+);
+
+const ReadingArticleSchema: Schema<ReadingArticle> = obj<ReadingArticle>({ title: str({ min: 1 }), content: str({ min: 50 }), questions: arr(ReadingQuestionSchema, { min: 1 }) });
+
+const ReadingQuestionsSchema: Schema<{ questions: ReadingQuestion[] }> = obj({ questions: arr(ReadingQuestionSchema, { min: 1 }) });
+
+const SpeakingReportSchema: Schema<SpeakingReport> = obj<SpeakingReport>({
+  errors: arr(obj<SpeakingError>({ kind: oneOf('grammar', 'word-choice'), context: str(), original: str({ min: 1 }), corrected: str({ min: 1 }), explanation: str({ min: 1 }) })),
+  usefulPhrases: arr(obj<{ phrase: string; meaning: string }>({ phrase: str({ min: 1 }), meaning: str() })),
+  fluency: refine(obj<{ score: number; summary: string }>({ score: num(), summary: str({ min: 1 }) }), f => f.score >= 1 && f.score <= 10 ? null : "score must be between 1 and 10"),
+  addedErrors: optional(arr(num())),
+});
+
+class SchemaValidationError extends Error {
+  constructor(public task: AITask, public issues: string[]) {
+    super(`Invalid ${task} response: ${issues.slice(0, 3).join("; ")}`);
+    this.name = "SchemaValidationError";
+  }
+}
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Generates JSON for `task`, validates it and re-prompts the model with the
+// exact issues until it conforms or the repair budget runs out.
+async function generateValidated<T>(prompt: string, task: AITask, schema: Schema<T>): Promise<T> {
+  const provider = getAIProvider();
+  let currentPrompt = prompt;
+  let issues: string[] = [];
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    let raw: unknown;
+    try {
+      raw = await provider.generateJSON(currentPrompt, task);
+    } catch (e) {
+      if (!(e instanceof SyntaxError)) throw e;
+      issues = ["response was not valid JSON"];
+      currentPrompt = `${prompt}\n\nYour previous response was not valid JSON. Return only the JSON value, with no extra text.`;
+      continue;
+    }
+    issues = [];
+    const value = schema(raw, "", issues);
+    if (issues.length === 0) return value;
+    console.warn(`[${task}] invalid response, attempt ${attempt + 1}`, issues);
+    currentPrompt = `${prompt}\n\nYour previous response did not match the required structure:\n${JSON.stringify(raw)}\n\nFix these problems and return the corrected JSON only:\n${issues.map(i => `- ${i}`).join("\n")}`;
+  }
+  throw new SchemaValidationError(task, issues);
+}
+
+function describeError(e: unknown) {
+  if (e instanceof SchemaValidationError) return "AI 返回的内容格式有误，已自动重试仍未成功，请再试一次。";
+  return "生成失败，请检查网络或 API Key 后重试。";
+}
+
+// Runs `task` over `items` with at most `limit` calls in flight, so a batch of model requests
+// doesn't trip rate limits. Results keep the order of `items`.
+async function mapConcurrent<T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await task(items[i], i);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// --- Spaced Repetition (SM-2) ---
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_MS = 10 * 60 * 1000;
+const MIN_EASE = 1.3;
+const DEFAULT_EASE = 2.5;
+
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 0, hard: 3, good: 4, easy: 5 };
+
+function createWord(text: string, translation: string, now = Date.now(), meta: WordMeta = {}): Word {
+  const word: Word = { text, translation, timestamp: now, ease: DEFAULT_EASE, interval: 0, reps: 0, lapses: 0, due: now, history: [] };
+  if (meta.kind) word.kind = meta.kind;
+  if (meta.context) word.context = meta.context;
+  if (meta.source) word.source = meta.source;
+  if (meta.phonetic) word.phonetic = meta.phonetic;
+  return word;
+}
+
+// Words saved before scheduling existed only have text/translation/timestamp.
+function normalizeWord(raw: any): Word {
+  if (!raw || typeof raw.text !== 'string' || !raw.text.trim()) throw new Error("word record without text");
+  const base = createWord(String(raw.text), String(raw.translation ?? ""), raw.timestamp || Date.now());
+  return {
+    ...base,
+    ease: typeof raw.ease === 'number' ? raw.ease : base.ease,
+    interval: typeof raw.interval === 'number' ? raw.interval : base.interval,
+    reps: typeof raw.reps === 'number' ? raw.reps : base.reps,
+    lapses: typeof raw.lapses === 'number' ? raw.lapses : base.lapses,
+    due: typeof raw.due === 'number' ? raw.due : base.due,
+    history: Array.isArray(raw.history) ? raw.history : [],
+    ...(raw.kind === 'phrase' && { kind: 'phrase' as const }),
+    ...(typeof raw.context === 'string' && raw.context && { context: raw.context }),
+    ...(['live', 'listen', 'read'].includes(raw.source) && { source: raw.source }),
+    ...(typeof raw.phonetic === 'string' && raw.phonetic && { phonetic: raw.phonetic }),
+  };
+}
+
+// Word book entries are unique by case-insensitive text.
+function hasWord(words: Word[], text: string) {
+  return words.some(w => w.text.toLowerCase() === text.toLowerCase());
+}
+
+function endOfToday(now = Date.now()) {
+  const d = new Date(now);
+  d.setHours(23, 59, 59, 999);
+  return d.getTime();
+}
+
+function isDue(word: Word, now = Date.now()) {
+  return word.due <= endOfToday(now);
+}
+
+function scheduleReview(word: Word, grade: ReviewGrade, now = Date.now()): Word {
+  const q = GRADE_QUALITY[grade];
+  const ease = Math.max(MIN_EASE, word.ease + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+  let { reps, lapses, interval } = word;
+  let due: number;
+
+  if (grade === 'again') {
+    reps = 0; lapses += 1; interval = 0;
+    due = now + RELEARN_MS;
+  } else {
+    reps += 1;
+    if (reps === 1) interval = grade === 'easy' ? 4 : 1;
+    else if (reps === 2) interval = grade === 'hard' ? 3 : 6;
+    else if (grade === 'hard') interval = Math.max(interval + 1, Math.round(interval * 1.2));
+    else interval = Math.round(interval * ease * (grade === 'easy' ? 1.3 : 1));
+    due = now + interval * DAY_MS;
+  }
+
+  return { ...word, ease, reps, lapses, interval, due, history: [...word.history, { timestamp: now, grade, interval, ease }] };
+}
+
+function formatInterval(word: Word, grade: ReviewGrade) {
+  const next = scheduleReview(word, grade);
+  return next.interval === 0 ? "10分钟" : `${next.interval}天`;
+}
+
+// --- Exercises ---
+
+// A mistake is retired once a learner answers this many fresh variants in a row.
+const MASTERY_STREAK = 3;
+
+const EXERCISE_FORMAT = `{ "type": "single"|"multi"|"blank"|"full", "src": "...", "options": ["A:...", ...], "answer": "A"|["A",...]| "word"|"full text", "acceptedAnswers": ["for blanks only: other words that fit the blank equally well, in the required form"], "hint": "..." }`;
+
+// A free translation passes once its weighted rubric score reaches this; meaning counts double.
+const RUBRIC_PASS_SCORE = 70;
+
+const RUBRIC_LABELS: Record<keyof Omit<TranslationRubric, 'better' | 'explanation'>, string> = { accuracy: "准确", grammar: "语法", naturalness: "自然", wordChoice: "用词" };
+
+function rubricScore(r: TranslationRubric) {
+  return Math.round((r.accuracy * 2 + r.grammar + r.naturalness + r.wordChoice) / 5);
+}
+
+// British spellings learners commonly use, keyed to the American form the key collapses them to.
+// Kept to explicit pairs: suffix rules like our → or also rewrite "four" and "hour".
+const SPELLING_VARIANTS: Record<string, string> = {
+  colour: "color", favour: "favor", favourite: "favorite", flavour: "flavor", honour: "honor",
+  humour: "humor", labour: "labor", neighbour: "neighbor", behaviour: "behavior", harbour: "harbor",
+  rumour: "rumor", centre: "center", theatre: "theater", metre: "meter", litre: "liter", fibre: "fiber",
+  organise: "organize", realise: "realize", recognise: "recognize", apologise: "apologize",
+  organisation: "organization", analyse: "analyze", travelled: "traveled", travelling: "traveling",
+  traveller: "traveler", cancelled: "canceled", cancelling: "canceling", labelled: "labeled",
+  catalogue: "catalog", dialogue: "dialog", programme: "program", defence: "defense", licence: "license",
+  offence: "offense", grey: "gray", jewellery: "jewelry", practise: "practice", enrol: "enroll",
+  fulfil: "fulfill", aluminium: "aluminum", pyjamas: "pajamas", mould: "mold", sceptical: "skeptical",
+};
+
+// British and American spellings collapse to one key, including their inflected forms:
+// colours/colors, organised/organized, centres/centers.
+function spellingKey(word: string) {
+  if (SPELLING_VARIANTS[word]) return SPELLING_VARIANTS[word];
+  for (const suffix of ["s", "es", "d", "ed", "ing"]) {
+    if (!word.endsWith(suffix)) continue;
+    const stem = word.slice(0, -suffix.length);
+    if (SPELLING_VARIANTS[stem]) return SPELLING_VARIANTS[stem] + suffix;
+    // "organising" → organise
+    if (SPELLING_VARIANTS[stem + "e"]) return SPELLING_VARIANTS[stem + "e"].replace(/e$/, "") + suffix;
+  }
+  return word;
+}
+
+// Blank answers accept any listed alternative ("close/shut"), the exercise's own accepted
+// answers, and the British or American spelling of either.
+function blankMatches(userAnswer: string, expected: string, accepted: string[] = []): 'exact' | 'variant' | null {
+  const clean = (w: string) => w.trim().toLowerCase().replace(/’/g, "'").replace(/[.,!?;:"]/g, "").replace(/\s+/g, " ");
+  const given = clean(userAnswer);
+  const options = [...expected.split("/"), ...accepted].map(clean).filter(Boolean);
+  if (options.includes(given)) return 'exact';
+  return options.some(o => spellingKey(o) === spellingKey(given)) ? 'variant' : null;
+}
+
+async function judgeExercise(current: Exercise, userAnswer: any): Promise<JudgedAnswer> {
+  const reference = Array.isArray(current.answer) ? current.answer.join(", ") : current.answer;
+  let isCorrect = false, explanation = "", rubric: TranslationRubric | undefined;
+  if (current.type === 'single') isCorrect = userAnswer === current.answer;
+  else if (current.type === 'multi') isCorrect = JSON.stringify([...(userAnswer || [])].sort()) === JSON.stringify([...(current.answer || [])].sort());
+  else if (current.type === 'blank') {
+    const match = blankMatches(String(userAnswer), reference, current.acceptedAnswers);
+    isCorrect = !!match;
+    if (match === 'variant') return { correct: true, explanation: `回答正确！标准答案写作 "${reference}"。` };
+  } else {
+    const [from, to] = current.direction === 'en-cn' ? ["English", "Chinese"] : ["Chinese", "English"];
+    rubric = await generateValidated(
+      `Grade a learner's ${from}-to-${to} translation. Source: "${current.src}". Learner: "${userAnswer}". Reference: "${reference}" (other correct wordings and synonyms are equally fine). Score 0-100 each for accuracy (meaning kept), grammar, naturalness and wordChoice. Return JSON { "accuracy": 0, "grammar": 0, "naturalness": 0, "wordChoice": 0, "better": "the learner's translation minimally corrected and polished, in ${to}", "explanation": "Brief CN explanation of the main issues" }`,
+      'translationJudge',
+      TranslationRubricSchema
+    );
+    isCorrect = rubricScore(rubric) >= RUBRIC_PASS_SCORE; explanation = rubric.explanation;
+    return { correct: isCorrect, explanation: isCorrect ? explanation || "翻译得很好！" : `${explanation || "翻译存在差异。"}\n\n参考翻译: \n"${reference}"`, rubric };
+  }
+  const finalExp = isCorrect ? "回答正确！" : `${explanation || "翻译存在差异。"}\n\n正确的完整翻译: \n"${reference}"`;
+  return { correct: isCorrect, explanation: finalExp };
+}
+
+const RubricBars = ({ rubric }: { rubric: TranslationRubric }) => (
+  <div className="space-y-1.5">
+    {(Object.keys(RUBRIC_LABELS) as (keyof typeof RUBRIC_LABELS)[]).map(key => (
+      <div key={key} className="flex items-center gap-2 text-xs">
+        <span className="w-8 shrink-0 font-bold">{RUBRIC_LABELS[key]}</span>
+        <div className="flex-1 h-1.5 bg-white/70 rounded-full overflow-hidden"><div className={`h-full rounded-full ${rubric[key] >= RUBRIC_PASS_SCORE ? 'bg-emerald-500' : 'bg-rose-400'}`} style={{ width: `${rubric[key]}%` }} /></div>
+        <span className="w-7 text-right tabular-nums">{rubric[key]}</span>
+      </div>
+    ))}
+  </div>
+);
+
+const ExerciseFeedback = ({ feedback }: { feedback: JudgedAnswer }) => (
+  <div className={`p-5 rounded-xl border space-y-3 ${feedback.correct ? "bg-emerald-50 text-emerald-800" : "bg-rose-50 text-rose-800"}`}>
+    {feedback.rubric && (
+      <>
+        <div className="flex items-baseline gap-2"><span className="text-3xl font-bold tabular-nums">{rubricScore(feedback.rubric)}</span><span className="text-xs opacity-70">/ 100</span></div>
+        <RubricBars rubric={feedback.rubric} />
+      </>
+    )}
+    <p className="text-sm leading-relaxed whitespace-pre-wrap">{feedback.explanation}</p>
+    {feedback.rubric?.better && <p className="text-sm leading-relaxed border-t border-current/10 pt-3"><span className="font-bold">建议改写：</span>{feedback.rubric.better}</p>}
+  </div>
+);
+
+const ExerciseInput = ({ exercise, userAnswer, setUserAnswer, locked }: { exercise: Exercise, userAnswer: any, setUserAnswer: (v: any) => void, locked: boolean }) => (
+  <div className="bg-white p-6 rounded-2xl shadow-md border border-slate-100">
+     <h3 className="text-xl font-medium text-slate-800 mb-8 font-serif">{exercise.src}</h3>
+     {['single', 'multi'].includes(exercise.type) && <div className="space-y-3">{(exercise.options || []).map((opt: string) => {
+       const label = opt.split(":")[0];
+       const isSel = exercise.type === 'multi' ? (userAnswer || []).includes(label) : userAnswer === label;
+       return <button key={opt} onClick={() => { if (locked) return; if (exercise.type === 'multi') { const cur = userAnswer || []; setUserAnswer(cur.includes(label) ? cur.filter((i: any) => i !== label) : [...cur, label]); } else setUserAnswer(label); }} className={`w-full text-left p-4 rounded-xl border transition-all ${isSel ? "bg-blue-600 text-white" : "bg-white text-slate-600"}`}>{opt}</button>;
+     })}</div>}
+     {exercise.type === 'blank' && <input value={userAnswer} onChange={e => setUserAnswer(e.target.value)} disabled={locked} placeholder="输入单词..." className="w-full border-b-2 py-3 outline-none" />}
+     {exercise.type === 'full' && <textarea value={userAnswer} onChange={e => setUserAnswer(e.target.value)} disabled={locked} placeholder={exercise.direction === 'en-cn' ? "输入中文翻译..." : "输入完整翻译..."} className="w-full bg-slate-50 border p-4 rounded-xl h-32 resize-none" />}
+  </div>
+);
+
+// --- Storage (IndexedDB) ---
+
+const DB_NAME = "lingoflow";
+
+type StoreName = 'meta' | 'words' | 'mistakes' | 'dailyConfigs' | 'sessions' | 'audio' | 'lessons' | 'activity' | 'lookups' | 'quarantine';
+
+type QuarantinedRecord = {
+  id?: number;
+  store: StoreName | 'localStorage';
+  record: unknown;
+  reason: string;
+  timestamp: number;
+};
+
+// One step per schema version; MIGRATIONS[n] upgrades a database from version n to n + 1.
+// Never edit a shipped step, append a new one instead.
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  (db) => {
+    db.createObjectStore('meta', { keyPath: 'key' });
+    db.createObjectStore('words', { keyPath: 'text' });
+    db.createObjectStore('mistakes', { keyPath: 'id' });
+    db.createObjectStore('dailyConfigs', { keyPath: 'date' });
+    db.createObjectStore('sessions', { keyPath: 'id' }).createIndex('startedAt', 'startedAt');
+    db.createObjectStore('audio', { keyPath: 'key' });
+    db.createObjectStore('lessons', { keyPath: 'id' }).createIndex('module', 'module');
+    db.createObjectStore('quarantine', { keyPath: 'id', autoIncrement: true });
+  },
+  (db) => {
+    db.createObjectStore('activity', { keyPath: 'id' }).createIndex('at', 'at');
+  },
+  (db) => {
+    db.createObjectStore('lookups', { keyPath: 'key' });
+  },
+  // British and Australian clips used to carry the accent request in the spoken text, which
+  // the voice could read out; drop them so they're voiced again.
+  (db, tx) => {
+    tx.objectStore('audio').openCursor(IDBKeyRange.bound("tts:", "tts:\uffff")).onsuccess = (e) => {
+      const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      if (/^tts:[^:]+:[^:]+:(uk|au):/.test(String(cursor.key))) cursor.delete();
+      cursor.continue();
+    };
+  },
+];
+
+const DB_VERSION = MIGRATIONS.length;
+
+const LEGACY_KEYS = { words: "lingo_words", mistakes: "lingo_mistakes", dailyConfig: "lingo_daily_config" };
+
+function normalizeMistake(raw: any): Mistake {
+  if (!raw || typeof raw.id !== 'number' || typeof raw.question !== 'string') throw new Error("mistake record without id or question");
+  if (raw.type !== undefined && !MISTAKE_TYPES.includes(raw.type)) throw new Error(`unknown mistake type ${raw.type}`);
+  return { streak: 0, mastered: false, userAnswer: "", correctAnswer: "", explanation: "", timestamp: raw.id, type: 'translation', ...raw };
+}
+
+function normalizeDailyConfig(raw: any): DailyConfig {
+  const issues: string[] = [];
+  const config = DailyConfigSchema(raw, "", issues);
+  if (issues.length) throw new Error(issues[0]);
+  return config;
+}
+
+function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function txDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = (e) => {
+        const tx = req.transaction!;
+        for (let v = e.oldVersion; v < DB_VERSION; v++) MIGRATIONS[v](req.result, tx);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => { dbPromise = null; reject(req.error); };
+    }).then(async (db) => {
+      await importLegacyLocalStorage(db);
+      return db;
+    });
+  }
+  return dbPromise;
+}
+
+// Moves the pre-IndexedDB localStorage data in once. Bad entries are quarantined
+// individually so one corrupt word doesn't cost the learner the whole book.
+async function importLegacyLocalStorage(db: IDBDatabase) {
+  const tx = db.transaction(['meta', 'words', 'mistakes', 'dailyConfigs', 'quarantine'], 'readwrite');
+  const meta = await requestToPromise(tx.objectStore('meta').get('legacyImport'));
+  if (meta) return;
+
+  const quarantine = (record: unknown, reason: string) => tx.objectStore('quarantine').add({ store: 'localStorage', record, reason, timestamp: Date.now() } as QuarantinedRecord);
+  const importList = (key: string, store: StoreName, normalize: (raw: any) => any) => {
+    const raw = localStorage.getItem(key);
+    if (!raw) return;
+    let list: unknown;
+    try { list = JSON.parse(raw); } catch { quarantine(raw, `${key}: invalid JSON`); return; }
+    if (!Array.isArray(list)) { quarantine(list, `${key}: expected array`); return; }
+    list.forEach(item => {
+      try { tx.objectStore(store).put(normalize(item)); } catch (e: any) { quarantine(item, `${key}: ${e.message}`); }
+    });
+  };
+
+  importList(LEGACY_KEYS.words, 'words', normalizeWord);
+  importList(LEGACY_KEYS.mistakes, 'mistakes', normalizeMistake);
+  const rawConfig = localStorage.getItem(LEGACY_KEYS.dailyConfig);
+  if (rawConfig) {
+    try { tx.objectStore('dailyConfigs').put(normalizeDailyConfig(JSON.parse(rawConfig))); } catch (e: any) { quarantine(rawConfig, `${LEGACY_KEYS.dailyConfig}: ${e.message}`); }
+  }
+  tx.objectStore('meta').put({ key: 'legacyImport', timestamp: Date.now() });
+  await txDone(tx);
+  Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+}
+
+const storage = {
+  async get<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+    const db = await openDB();
+    return requestToPromise(db.transaction(store).objectStore(store).get(key));
+  },
+
+  async put<T>(store: StoreName, value: T) {
+    const db = await openDB();
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).put(value);
+    await txDone(tx);
+  },
+
+  // Read-modify-write in a single transaction so concurrent updates to one record don't clobber each other.
+  async update<T>(store: StoreName, key: IDBValidKey, fn: (current: T | undefined) => T | undefined) {
+    const db = await openDB();
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    const next = fn(await requestToPromise(objectStore.get(key)));
+    if (next !== undefined) objectStore.put(next);
+    await txDone(tx);
+  },
+
+  async delete(store: StoreName, key: IDBValidKey) {
+    const db = await openDB();
+    const tx = db.transaction(store, 'readwrite');
+    tx.objectStore(store).delete(key);
+    await txDone(tx);
+  },
+
+  // Loads every record, moving any that fail `normalize` into quarantine.
+  async loadAll<T>(store: StoreName, normalize: (raw: any) => T): Promise<T[]> {
+    const db = await openDB();
+    const tx = db.transaction([store, 'quarantine'], 'readwrite');
+    const objectStore = tx.objectStore(store);
+    const [keys, values] = await Promise.all([requestToPromise(objectStore.getAllKeys()), requestToPromise(objectStore.getAll())]);
+    const valid: T[] = [];
+    values.forEach((raw, i) => {
+      try { valid.push(normalize(raw)); } catch (e: any) {
+        console.warn(`Quarantining corrupt ${store} record`, raw, e);
+        tx.objectStore('quarantine').add({ store, record: raw, reason: e.message, timestamp: Date.now() } as QuarantinedRecord);
+        objectStore.delete(keys[i]);
+      }
+    });
+    await txDone(tx);
+    return valid;
+  },
+
+  // Keeps the newest `keep` records in `range` by `createdAt` and deletes the rest.
+  async prune<T>(store: StoreName, keep: number, createdAt: (record: T) => number, range?: IDBKeyRange) {
+    const db = await openDB();
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    const [keys, values] = await Promise.all([requestToPromise(objectStore.getAllKeys(range)), requestToPromise(objectStore.getAll(range))]);
+    if (keys.length > keep) {
+      keys.map((key, i) => ({ key, at: createdAt(values[i]) || 0 }))
+        .sort((a, b) => b.at - a.at)
+        .slice(keep)
+        .forEach(({ key }) => objectStore.delete(key));
+    }
+    await txDone(tx);
+  },
+
+  // Writes only the records that changed between two snapshots of an immutable list.
+  async sync<T>(store: StoreName, prev: T[], next: T[], keyOf: (item: T) => IDBValidKey) {
+    const prevSet = new Set(prev);
+    const nextKeys = new Set(next.map(keyOf));
+    const puts = next.filter(item => !prevSet.has(item));
+    const deletes = prev.map(keyOf).filter(k => !nextKeys.has(k));
+    if (!puts.length && !deletes.length) return;
+    const db = await openDB();
+    const tx = db.transaction(store, 'readwrite');
+    deletes.forEach(k => tx.objectStore(store).delete(k));
+    puts.forEach(item => tx.objectStore(store).put(item));
+    await txDone(tx);
+  },
+};
+
+// React state mirrored into an object store. Records must be replaced, not mutated,
+// so the diff against the last persisted snapshot finds exactly what changed.
+function usePersistentList<T>(store: StoreName, keyOf: (item: T) => IDBValidKey, normalize: (raw: any) => T, sort: (a: T, b: T) => number) {
+  const [items, setItems] = useState<T[]>([]);
+  const [ready, setReady] = useState(false);
+  const persistedRef = useRef<T[]>([]);
+
+  useEffect(() => {
+    storage.loadAll(store, normalize)
+      .then(records => { const sorted = records.sort(sort); persistedRef.current = sorted; setItems(sorted); })
+      .catch(e => console.error(`Failed to load ${store}`, e))
+      .finally(() => setReady(true));
+  }, [store]);
+
+  useEffect(() => {
+    if (!ready) return;
+    const prev = persistedRef.current;
+    persistedRef.current = items;
+    storage.sync(store, prev, items, keyOf).catch(e => console.error(`Failed to save ${store}`, e));
+  }, [items, ready]);
+
+  return [items, setItems, ready] as const;
+}
+
+function normalizeSessionRecord(raw: any): LiveSessionRecord {
+  if (!raw || typeof raw.id !== 'string' || !Array.isArray(raw.transcript)) throw new Error("session record without id or transcript");
+  return { topic: "", startedAt: 0, endedAt: raw.startedAt || 0, ...raw };
+}
+
+let lastIssuedId = 0;
+
+// Date.now() based ids that stay unique when several records are created in the same millisecond.
+function uniqueTimestampId() {
+  lastIssuedId = Math.max(Date.now(), lastIssuedId + 1);
+  return lastIssuedId;
+}
+
+// --- Import / Export ---
+
+const BACKUP_FORMAT = "lingoflow-backup";
+const BACKUP_VERSION = 1;
+
+type BackupBundle = {
+  words: Word[];
+  mistakes: Mistake[];
+  dailyConfigs: DailyConfig[];
+};
+
+type ImportSummary = {
+  addedWords: number;
+  skippedWords: number;
+  addedMistakes: number;
+  skippedMistakes: number;
+  addedConfigs: number;
+  invalid: number;
+};
+
+function csvField(value: unknown) {
+  const text = String(value ?? "");
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCSV(rows: unknown[][]) {
+  return rows.map(r => r.map(csvField).join(",")).join("\r\n");
+}
+
+// RFC 4180 parser; also handles tab-separated files when `separator` is "\t".
+function parseDelimited(text: string, separator = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [], field = "", inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') inQuotes = false;
+      else field += c;
+    } else if (c === '"' && field === "") inQuotes = true;
+    else if (c === separator) { row.push(field); field = ""; }
+    else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row); row = []; field = "";
+    } else field += c;
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(f => f.trim()));
+}
+
+function stripTabs(text: string) {
+  return text.replace(/[\t\r\n]+/g, " ").trim();
+}
+
+// Anki's "Import File" reads these header lines (2.1.54+) and maps the third column to tags.
+function exportAnkiTSV(words: Word[]) {
+  const header = "#separator:tab\n#html:false\n#tags column:3\n";
+  return header + words.map(w => [stripTabs(w.text), stripTabs(w.translation), "LingoFlow"].join("\t")).join("\n");
+}
+
+function exportWordsCSV(words: Word[]) {
+  return toCSV([
+    ["text", "translation", "added", "due", "interval", "ease", "reps", "lapses", "context", "source"],
+    ...words.map(w => [w.text, w.translation, new Date(w.timestamp).toISOString(), new Date(w.due).toISOString(), w.interval, w.ease.toFixed(2), w.reps, w.lapses, w.context || "", w.source || ""]),
+  ]);
+}
+
+function exportMistakesCSV(mistakes: Mistake[]) {
+  return toCSV([
+    ["type", "question", "userAnswer", "correctAnswer", "explanation", "date", "mastered"],
+    ...mistakes.map(m => [m.type, m.question, m.userAnswer, m.correctAnswer, m.explanation, new Date(m.timestamp).toISOString(), m.mastered]),
+  ]);
+}
+
+function exportBackupJSON(bundle: BackupBundle) {
+  return JSON.stringify({ format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: new Date().toISOString(), ...bundle }, null, 2);
+}
+
+function downloadText(filename: string, text: string, mimeType: string) {
+  // The BOM keeps Excel from mangling Chinese in CSV files.
+  const blob = new Blob([mimeType === 'text/csv' ? "\ufeff" : "", text], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url; a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// Parses a JSON backup, CSV or Anki TSV into records; rows that don't validate are counted, not fatal.
+function parseImportFile(name: string, text: string): { bundle: BackupBundle; invalid: number } {
+  const bundle: BackupBundle = { words: [], mistakes: [], dailyConfigs: [] };
+  let invalid = 0;
+  const collect = <T,>(items: unknown, normalize: (raw: any) => T, into: T[]) => {
+    if (!Array.isArray(items)) return;
+    items.forEach(item => { try { into.push(normalize(item)); } catch { invalid++; } });
+  };
+
+  const body = text.replace(/^\ufeff/, "");
+  if (/\.json$/i.test(name) || body.trim().startsWith("{")) {
+    const data = JSON.parse(body);
+    if (data.format !== BACKUP_FORMAT) throw new Error("Not a LingoFlow backup file");
+    collect(data.words, normalizeWord, bundle.words);
+    collect(data.mistakes, normalizeMistake, bundle.mistakes);
+    collect(data.dailyConfigs, normalizeDailyConfig, bundle.dailyConfigs);
+    return { bundle, invalid };
+  }
+
+  const lines = body.split(/\r?\n/).filter(l => !l.startsWith("#")).join("\n");
+  const rows = parseDelimited(lines, /\.(tsv|txt)$/i.test(name) ? "\t" : ",");
+  // Mistakes CSV as written by exportMistakesCSV.
+  if (rows[0]?.[0]?.trim().toLowerCase() === "type") {
+    collect(rows.slice(1).map(([type, question, userAnswer, correctAnswer, explanation, date, mastered]) => {
+      const timestamp = Date.parse(date) || Date.now();
+      return { id: uniqueTimestampId(), type, question, userAnswer, correctAnswer, explanation, timestamp, mastered: mastered === "true", streak: 0 };
+    }), normalizeMistake, bundle.mistakes);
+    return { bundle, invalid };
+  }
+  const isHeader = (r: string[]) => ["text", "word", "front"].includes(r[0]?.trim().toLowerCase());
+  // Scheduling, context and source only round-trip through our own CSV, which names its columns;
+  // normalizeWord falls back to a fresh schedule for anything missing or malformed.
+  const header = rows[0] && isHeader(rows[0]) ? rows[0].map(h => h.trim().toLowerCase()) : [];
+  const column = (r: string[], name: string) => header.includes(name) ? r[header.indexOf(name)]?.trim() : undefined;
+  const number = (value?: string) => value && Number.isFinite(Number(value)) ? Number(value) : undefined;
+  const date = (value?: string) => value && !Number.isNaN(Date.parse(value)) ? Date.parse(value) : undefined;
+  collect(rows.filter((r, i) => !(i === 0 && isHeader(r))).map(r => {
+    const [text, translation] = r.map(f => f.trim());
+    return {
+      text, translation: translation || "", timestamp: date(column(r, "added")),
+      due: date(column(r, "due")), interval: number(column(r, "interval")), ease: number(column(r, "ease")),
+      reps: number(column(r, "reps")), lapses: number(column(r, "lapses")),
+      context: column(r, "context"), source: column(r, "source"),
+    };
+  }), normalizeWord, bundle.words);
+  return { bundle, invalid };
+}
+
+function mistakeKey(m: Mistake) {
+  return [m.type, m.question, m.correctAnswer].map(x => String(x).trim().toLowerCase()).join("|");
+}
+
+// Existing entries win, the same way addWord ignores a word that is already saved.
+function mergeBackup(words: Word[], mistakes: Mistake[], incoming: BackupBundle) {
+  const mergedWords = [...words];
+  let skippedWords = 0;
+  incoming.words.forEach(w => {
+    if (hasWord(mergedWords, w.text)) skippedWords++;
+    else mergedWords.push(w);
+  });
+
+  const keys = new Set(mistakes.map(mistakeKey));
+  const ids = new Set(mistakes.map(m => m.id));
+  const mergedMistakes = [...mistakes];
+  let skippedMistakes = 0;
+  incoming.mistakes.forEach(m => {
+    const key = mistakeKey(m);
+    if (keys.has(key)) { skippedMistakes++; return; }
+    keys.add(key);
+    const id = ids.has(m.id) ? uniqueTimestampId() : m.id;
+    ids.add(id);
+    mergedMistakes.push({ ...m, id });
+  });
+
+  return {
+    words: mergedWords.sort((a, b) => b.timestamp - a.timestamp),
+    mistakes: mergedMistakes.sort((a, b) => b.timestamp - a.timestamp),
+    addedWords: mergedWords.length - words.length,
+    skippedWords,
+    addedMistakes: mergedMistakes.length - mistakes.length,
+    skippedMistakes,
+  };
+}
+
+// --- Pronunciation ---
+
+const TTS_VOICES: { name: string; label: string; gender: DialogueSpeaker['gender'] }[] = [
+  { name: "Kore", label: "Kore · 女声，沉稳", gender: 'female' },
+  { name: "Aoede", label: "Aoede · 女声，轻快", gender: 'female' },
+  { name: "Leda", label: "Leda · 女声，年轻", gender: 'female' },
+  { name: "Puck", label: "Puck · 男声，明快", gender: 'male' },
+  { name: "Charon", label: "Charon · 男声，低沉", gender: 'male' },
+  { name: "Orus", label: "Orus · 男声，坚定", gender: 'male' },
+];
+const ACCENT_LABELS: Record<SpeechAccent, string> = { us: "美式", uk: "英式", au: "澳式" };
+const ACCENT_NAMES: Record<SpeechAccent, string> = { us: "American", uk: "British", au: "Australian" };
+const ACCENT_LANGS: Record<SpeechAccent, string> = { us: "en-US", uk: "en-GB", au: "en-AU" };
+const DEFAULT_SPEECH: SpeechSettings = { voice: DEFAULT_VOICE, accent: 'us' };
+
+// Clips are stored as raw 24 kHz PCM in the audio store so lesson audio can splice them. The key
+// includes the provider so offline mock audio never stands in for a real voice.
+const ttsKey = (text: string, settings: SpeechSettings) => `tts:${getAIProvider().id}:${settings.voice}:${settings.accent}:${text}`;
+
+// Requests still in flight, so concurrent plays of one clip share a model call. Finished clips
+// live only in the audio store; keeping their PCM here too would hold every lesson in memory.
+const ttsCache = new Map<string, Promise<Uint8Array | null>>();
+
+// The newest clips kept in the audio store; older ones are voiced again if they're needed.
+const MAX_CACHED_CLIPS = 800;
+const PRUNE_EVERY_CLIPS = 50;
+let clipsSincePrune = PRUNE_EVERY_CLIPS;
+
+function cacheSpeech(key: string, pcm: Uint8Array) {
+  storage.put<StoredAudio>('audio', { key, blob: new Blob([pcm], { type: 'audio/pcm;rate=24000' }), createdAt: Date.now() })
+    .then(() => {
+      if (++clipsSincePrune < PRUNE_EVERY_CLIPS) return;
+      clipsSincePrune = 0;
+      return storage.prune<StoredAudio>('audio', MAX_CACHED_CLIPS, a => a.createdAt, IDBKeyRange.bound("tts:", "tts:\uffff"));
+    })
+    .catch(e => console.error("Failed to cache speech", e));
+}
+
+// Synthesizes `text` once per voice and accent; later calls, including after a reload or offline,
+// come from the audio store. Resolves null when the provider can't produce speech.
+function speechPcm(text: string, settings: SpeechSettings): Promise<Uint8Array | null> {
+  const key = ttsKey(text.trim(), settings);
+  let pending = ttsCache.get(key);
+  if (!pending) {
+    pending = (async () => {
+      const stored = await storage.get<StoredAudio>('audio', key).catch(() => undefined);
+      if (stored) return new Uint8Array(await stored.blob.arrayBuffer());
+      const style = settings.accent === 'us' ? undefined : `Speak the text with a natural ${ACCENT_NAMES[settings.accent]} English accent.`;
+      const pcm = await getAIProvider().synthesizeSpeech(text.trim(), settings.voice, style);
+      if (pcm) cacheSpeech(key, pcm);
+      return pcm;
+    })();
+    pending.then(() => ttsCache.delete(key), () => ttsCache.delete(key));
+    ttsCache.set(key, pending);
+  }
+  return pending;
+}
+
+const pcmToWav = (pcm: Uint8Array) => new Blob([getWavHeader(pcm.length, 24000), pcm], { type: 'audio/wav' });
+
+let pronounceCall = 0;
+let stopPronunciation: (() => void) | null = null;
+
+// Plays `text` in the learner's chosen voice. The browser's speechSynthesis is only a fallback
+// for when nothing is cached and the model can't be reached.
+async function pronounce(text: string, settings: SpeechSettings) {
+  const call = ++pronounceCall;
+  stopPronunciation?.();
+  let pcm: Uint8Array | null = null;
+  try { pcm = await speechPcm(text, settings); } catch (e) { console.warn("Model TTS unavailable, falling back to speechSynthesis", e); }
+  // A newer press took over while this one was loading.
+  if (call !== pronounceCall) return;
+  if (!pcm) {
+    const u = new SpeechSynthesisUtterance(text);
+    u.lang = ACCENT_LANGS[settings.accent];
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(u);
+    stopPronunciation = () => window.speechSynthesis.cancel();
+    return;
+  }
+  const url = URL.createObjectURL(pcmToWav(pcm));
+  const audio = new Audio(url);
+  const release = () => {
+    audio.pause();
+    URL.revokeObjectURL(url);
+    if (stopPronunciation === release) stopPronunciation = null;
+  };
+  audio.onended = release;
+  audio.onerror = release;
+  stopPronunciation = release;
+  await audio.play().catch(release);
+}
+
+// --- Learner Profile ---
+
+const CEFR_LEVELS: CEFRLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+const CEFR_LABELS: Record<CEFRLevel, string> = { A1: "入门", A2: "基础", B1: "进阶", B2: "中高级", C1: "高级", C2: "精通" };
+const GOAL_LABELS: Record<LearnerGoal, string> = { exam: "考试备考", business: "职场商务", travel: "出行旅游" };
+const GOAL_PROMPTS: Record<LearnerGoal, string> = { exam: "exam preparation (IELTS/TOEFL style)", business: "business and workplace English", travel: "travel and everyday situations" };
+// Explanations, translations and the UI are all written Chinese, so only Chinese-speaking
+// backgrounds are offered; the choice still tells the model which interference errors to expect.
+const NATIVE_LANGUAGES = [
+  { value: "Chinese", label: "中文（普通话）" },
+  { value: "Cantonese", label: "粤语" },
+];
+
+const PROFILE_KEY = 'profile';
+const DEFAULT_PROFILE: LearnerProfile = { level: 'B1', goals: [], nativeLanguage: "Chinese", levelSource: 'default', levelUpdatedAt: 0, recentAnswers: [], speech: DEFAULT_SPEECH };
+
+// Automatic adjustment looks at the last ADJUST_WINDOW answers since the level last changed.
+const ADJUST_WINDOW = 20;
+const LEVEL_UP_ACCURACY = 0.85;
+const LEVEL_DOWN_ACCURACY = 0.5;
+
+// Content length per level, in words
+const LISTENING_STORY_WORDS: Record<CEFRLevel, number> = { A1: 60, A2: 90, B1: 120, B2: 160, C1: 200, C2: 250 };
+const READING_ARTICLE_WORDS: Record<CEFRLevel, number> = { A1: 120, A2: 180, B1: 250, B2: 350, C1: 450, C2: 550 };
+
+// Lower levels lean on recognition, higher levels on free production.
+const EXERCISE_MIX: Record<CEFRLevel, string> = {
+  A1: "3 single choice (CN-EN), 1 multiple choice (CN-EN), 1 blank (EN with _____, provide CN hint)",
+  A2: "2 single choice (CN-EN), 1 multiple choice (CN-EN), 2 blank (EN with _____, provide CN hint)",
+  B1: "2 single choice (CN-EN), 1 multiple choice (CN-EN), 1 blank (EN with _____, provide CN hint), 1 full sentence (CN-EN)",
+  B2: "1 single choice (CN-EN), 1 multiple choice (CN-EN), 1 blank (EN with _____, provide CN hint), 2 full sentence (CN-EN)",
+  C1: "1 multiple choice (CN-EN), 1 blank (EN with _____, provide CN hint), 3 full sentence (CN-EN)",
+  C2: "1 blank (EN with _____, provide CN hint), 4 full sentence (CN-EN)",
+};
+
+function normalizeProfile(raw: any): LearnerProfile {
+  if (!raw || typeof raw !== 'object') return DEFAULT_PROFILE;
+  return {
+    level: CEFR_LEVELS.includes(raw.level) ? raw.level : DEFAULT_PROFILE.level,
+    goals: Array.isArray(raw.goals) ? raw.goals.filter((g: any) => g in GOAL_LABELS) : [],
+    nativeLanguage: NATIVE_LANGUAGES.some(l => l.value === raw.nativeLanguage) ? raw.nativeLanguage : DEFAULT_PROFILE.nativeLanguage,
+    levelSource: ['default', 'manual', 'placement', 'auto'].includes(raw.levelSource) ? raw.levelSource : 'default',
+    levelUpdatedAt: Number(raw.levelUpdatedAt) || 0,
+    recentAnswers: Array.isArray(raw.recentAnswers) ? raw.recentAnswers.filter((a: any) => a && typeof a.correct === 'boolean').slice(-ADJUST_WINDOW) : [],
+    speech: {
+      voice: TTS_VOICES.some(v => v.name === raw.speech?.voice) ? raw.speech.voice : DEFAULT_SPEECH.voice,
+      accent: raw.speech?.accent in ACCENT_LABELS ? raw.speech.accent : DEFAULT_SPEECH.accent,
+    },
+  };
+}
+
+async function loadProfile(): Promise<LearnerProfile> {
+  const record = await storage.get<{ key: string; profile: unknown }>('meta', PROFILE_KEY);
+  return normalizeProfile(record?.profile);
+}
+
+function saveProfile(profile: LearnerProfile) {
+  return storage.put('meta', { key: PROFILE_KEY, profile });
+}
+
+function withLevel(profile: LearnerProfile, level: CEFRLevel, source: LearnerProfile['levelSource']): LearnerProfile {
+  return { ...profile, level, levelSource: source, levelUpdatedAt: Date.now(), recentAnswers: [] };
+}
+
+// Logs a graded answer and moves the level one step once a full window is clearly too easy or too hard.
+function recordAnswer(profile: LearnerProfile, module: AnswerModule, correct: boolean): LearnerProfile {
+  const recentAnswers = [...profile.recentAnswers, { module, correct, at: Date.now() }].slice(-ADJUST_WINDOW);
+  if (recentAnswers.length < ADJUST_WINDOW) return { ...profile, recentAnswers };
+  const accuracy = recentAnswers.filter(a => a.correct).length / recentAnswers.length;
+  const index = CEFR_LEVELS.indexOf(profile.level);
+  if (accuracy >= LEVEL_UP_ACCURACY && index < CEFR_LEVELS.length - 1) return withLevel(profile, CEFR_LEVELS[index + 1], 'auto');
+  if (accuracy <= LEVEL_DOWN_ACCURACY && index > 0) return withLevel(profile, CEFR_LEVELS[index - 1], 'auto');
+  return { ...profile, recentAnswers };
+}
+
+// One-line learner description appended to every generation prompt.
+function profilePrompt(profile: LearnerProfile) {
+  const goals = profile.goals.length ? ` Their goals: ${profile.goals.map(g => GOAL_PROMPTS[g]).join(", ")}.` : "";
+  return `The learner is at CEFR level ${profile.level} and their native language is ${profile.nativeLanguage}.${goals} Pitch vocabulary, grammar and content at this level and lean towards these goals.`;
+}
+
+type PlacementQuestion = { level: CEFRLevel; text: string; options: string[]; answer: number };
+
+// Two questions per level, easiest first. The score maps straight onto a level.
+const PLACEMENT_TEST: PlacementQuestion[] = [
+  { level: 'A1', text: "She ___ a teacher.", options: ["am", "is", "are", "be"], answer: 1 },
+  { level: 'A1', text: "I ___ coffee every morning.", options: ["drink", "drinks", "drinking", "am drink"], answer: 0 },
+  { level: 'A2', text: "We ___ to Beijing last summer.", options: ["go", "goes", "went", "have gone"], answer: 2 },
+  { level: 'A2', text: "This bag is ___ than that one.", options: ["heavy", "heavier", "heaviest", "more heavy"], answer: 1 },
+  { level: 'B1', text: "If it rains tomorrow, we ___ at home.", options: ["stay", "will stay", "would stay", "stayed"], answer: 1 },
+  { level: 'B1', text: "I've lived here ___ 2015.", options: ["for", "since", "from", "during"], answer: 1 },
+  { level: 'B2', text: "By the time we arrived, the film ___.", options: ["already started", "has already started", "had already started", "was already starting"], answer: 2 },
+  { level: 'B2', text: "I'd rather you ___ smoke in here.", options: ["don't", "didn't", "won't", "not"], answer: 1 },
+  { level: 'C1', text: "Not only ___ late, but he also forgot the tickets.", options: ["he was", "was he", "he is", "did he be"], answer: 1 },
+  { level: 'C1', text: "Her argument was so ___ that nobody could find a flaw in it.", options: ["cogent", "tentative", "verbose", "lenient"], answer: 0 },
+  { level: 'C2', text: "Scarcely ___ the stage when the lights went out.", options: ["she had reached", "had she reached", "she reached", "did she reached"], answer: 1 },
+  { level: 'C2', text: "The minister's remarks were seen as ___, meant to deflect criticism rather than address it.", options: ["disingenuous", "ingenuous", "candid", "perfunctory"], answer: 0 },
+];
+
+function placementLevel(correct: number): CEFRLevel {
+  return CEFR_LEVELS[Math.min(CEFR_LEVELS.length - 1, Math.max(0, Math.ceil(correct / 2) - 1))];
+}
+
+// --- Activity Log ---
+
+const ACTIVITY_MODULES: ActivityModule[] = ['listening', 'dictation', 'translation', 'reading', 'live', 'vocabulary', 'mistakes'];
+const ACTIVITY_LABELS: Record<ActivityModule, string> = { listening: "听力", dictation: "听写", translation: "翻译", reading: "阅读", live: "口语", vocabulary: "单词", mistakes: "错题" };
+// Modules whose lessons are graded, in the order the accuracy trends list them
+const GRADED_MODULES: ActivityModule[] = ['listening', 'dictation', 'translation', 'reading'];
+
+function normalizeActivity(raw: any): ActivityEvent {
+  if (!raw || typeof raw.id !== 'number' || typeof raw.at !== 'number' || !ACTIVITY_MODULES.includes(raw.module)) throw new Error("activity record without id, time or module");
+  return raw;
+}
+
+// YYYY-MM-DD in the learner's own timezone, so days roll over at local midnight.
+function localDateKey(time: number | Date = new Date()) {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function shiftDays(date: Date, days: number) {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+}
+
+// Consecutive days with any activity, ending today. A day not yet practised doesn't break
+// the streak until it's over, so a streak that ended yesterday still counts.
+function activityStreak(events: ActivityEvent[], now = new Date()) {
+  const days = new Set(events.map(e => localDateKey(e.at)));
+  const practisedToday = days.has(localDateKey(now));
+  let streak = 0;
+  for (let d = practisedToday ? now : shiftDays(now, -1); days.has(localDateKey(d)); d = shiftDays(d, -1)) streak++;
+  return { streak, practisedToday };
+}
+
+// Event counts for the last seven days, oldest first.
+function weeklyActivity(events: ActivityEvent[], now = new Date()) {
+  const counts = new Map<string, number>();
+  events.forEach(e => { const key = localDateKey(e.at); counts.set(key, (counts.get(key) || 0) + 1); });
+  return Array.from({ length: 7 }, (_, i) => {
+    const day = shiftDays(now, i - 6);
+    return { key: localDateKey(day), weekday: "日一二三四五六"[day.getDay()], count: counts.get(localDateKey(day)) || 0 };
+  });
+}
+
+// Accuracy of each of the module's most recent graded lessons, oldest first.
+function accuracyTrend(events: ActivityEvent[], module: ActivityModule, limit = 8) {
+  return events
+    .filter(e => e.module === module && e.kind === 'lesson' && e.total)
+    .sort((a, b) => a.at - b.at)
+    .slice(-limit)
+    .map(e => e.correct! / e.total!);
+}
+
+// --- Word Frequency ---
+
+// About 1,900 common English lemmas, most frequent first, used to guess which words of a
+// text a learner is unlikely to know yet.
+const WORD_FREQUENCY_LIST = `
+the be and of a in to have it i that for you he with on do say this they at but we his from not by
+she or as what go their can who get if would her all my make about know will up one time there year
+so think when which them some me people take out into just see him your come could now than like
+other how then its our two more these want way look first also new because day use no man find here
+thing give many well only those tell very even back any good woman through us life child work down
+may after should call world over school still try last ask need too feel three state never become
+between high really something most another family own leave put old while mean keep student why let
+great same big group begin seem country help talk where turn problem every start hand might show
+part against place such again few case week company system each right program hear question during
+play government run small number off always move night live point believe hold today bring happen
+next without before large million must home under water room write mother area national money story
+young fact month different lot study book eye job word business issue side kind four head far black
+long both little house yes since provide service around friend important father sit away until power
+hour game often yet line political end among ever stand bad lose however member pay law meet car
+city almost include continue set later community much name five once white least president learn
+real change team minute best several idea kid body information nothing ago lead social understand
+whether watch together follow parent stop face anything create public already speak others read
+level allow add office spend door health person art sure war history party within grow result open
+morning walk reason low win research girl guy early food moment himself air teacher force offer
+enough education across although remember foot second boy maybe toward able age policy everything
+love process music including consider appear actually buy probably human wait serve market die send
+expect sense build stay fall oh nation plan cut college interest death course someone experience
+behind reach local kill six remain effect yeah suggest class control raise care perhaps late hard
+field else pass former sell major sometimes require along development themselves report role better
+economic effort decide rate strong possible heart drug leader light voice wife whole police mind
+finally pull return free military price less according decision explain son hope develop view
+relationship carry town road drive arm true federal break difference thank receive value
+international building action full model join season society tax director position player agree
+especially record pick wear paper special space ground form support event official whose matter
+everyone center couple site project hit base activity star table court produce eat teach oil half
+situation easy cost industry figure street image itself phone either data cover quite picture clear
+practice piece land recent describe product doctor wall patient worker news test movie certain north
+personal simply third technology catch step baby computer type attention draw film tree source red
+nearly organization choose cause hair century evidence window difficult listen soon culture billion
+chance brother energy period summer realize hundred available plant likely opportunity term short
+letter condition choice single rule daughter administration south husband floor campaign material
+population economy medical hospital church close thousand risk current fire future wrong involve
+defense anyone increase security bank myself certainly west sport board seek per subject officer
+private rest behavior deal performance fight throw top quickly past goal bed order author fill
+represent focus foreign drop blood upon agency push nature color recently store reduce sound note
+fine near movement page enter share common poor natural race concern series significant similar hot
+language usually response dead rise animal factor decade article shoot east save seven artist scene
+stock career despite central eight thus treatment beyond happy exactly protect approach lie size dog
+fund serious occur media ready sign thought list individual simple quality pressure accept answer
+resource identify left meeting determine prepare disease whatever success argue cup particularly
+amount ability staff recognize indicate character growth loss degree wonder attack herself region
+television box training pretty trade deep election everybody physical lay general feeling standard
+bill message fail outside arrive analysis benefit forward lawyer present section environmental glass
+skill sister professor operation financial crime stage compare authority miss design sort act ten
+knowledge gun station blue strategy clearly discuss indeed truth song example democratic check
+environment leg dark various rather laugh guess executive prove hang entire rock forget claim remove
+manager enjoy network legal religious cold final main science green memory card above seat cell
+establish nice trial expert spring firm radio visit management avoid imagine tonight huge ball
+finish yourself theory impact respond statement maintain charge popular traditional onto reveal
+direction weapon employee cultural contain peace pain apply measure wide shake fly interview manage
+chair fish particular camera structure politics perform bit weight suddenly discover candidate
+production treat trip evening affect inside conference unit style adult worry range mention edge
+specific writer trouble necessary throughout challenge fear shoulder institution middle sea dream
+bar beautiful property instead improve stuff detail method somebody magazine hotel soldier reflect
+heavy bag heat marriage tough sing surface purpose exist pattern whom skin agent owner machine gas
+ahead generation commercial address cancer item reality coach yard beat violence total tend
+investment discussion finger garden notice collection modern task partner positive civil kitchen
+consumer shot budget wish painting scientist safe agreement capital mouth nor victim newspaper
+threat responsibility smile attorney score account interesting audience rich dinner vote western
+relate travel debate prevent citizen majority none front born admit senior assume wind key
+professional mission fast alone customer suffer speech successful option participant southern fresh
+eventually forest video global senate reform access restaurant judge publish relation release bird
+opinion credit critical corner concerned recall version stare safety effective neighborhood original
+troop income directly hurt species immediately track basic strike sky freedom absolutely plane
+nobody achieve object attitude labor refer concept client powerful perfect nine therefore conduct
+announce conversation examine touch please attend completely variety sleep involved investigation
+nuclear researcher press conflict spirit replace encourage argument camp brain feature afternoon
+weekend dozen possibility insurance department battle beginning date generally sorry crisis complete
+fan stick define easily hole element vision status normal ship solution stone slowly scale
+university introduce driver attempt park spot lack ice boat drink sun distance wood handle truck
+mountain survey supposed tradition winter village refuse roll communication screen gain resident
+hide gold club farm potential presence independent district shape reader contract crowd express
+apartment willing strength previous band obviously horse interested target prison ride guard terms
+demand reporter deliver text tool wild vehicle observe flight facility understanding average emerge
+advantage quick leadership earn pound basis bright operate guest sample contribute tiny block
+protection settle feed collect additional highly identity title mostly lesson faith river promote
+living count unless marry tomorrow technique path ear shop folk principle survive lift border
+competition jump gather limit fit cry equipment worth associate critic warm aspect insist failure
+annual comment responsible affair procedure regular spread chairman baseball soft ignore egg belief
+demonstrate anybody murder gift religion review editor engage coffee document speed cross influence
+anyway threaten commit female youth wave afraid quarter background native broad wonderful deny
+apparently slightly reaction twice suit perspective growing blow construction intelligence destroy
+cook connection burn shoe grade context committee hey mistake location clothes quiet dress promise
+aware neighbor function bone active extend chief combine wine below cool voter learning bus hell
+dangerous remind moral united category relatively victory academic internet healthy negative
+following historical medicine tour depend photo finding grab direct classroom contact justice
+participate daily fair pair famous exercise knee flower tape hire familiar appropriate supply fully
+actor birth search tie democracy eastern primary yesterday circle device progress bottom island
+exchange clean studio train lady colleague application neck lean damage plastic tall plate hate
+otherwise writing male alive expression football intend chicken army abuse theater shut map extra
+session danger welcome domestic lots literature rain desire assessment injury respect northern nod
+paint fuel leaf dry instruction pool climb sweet engine fourth salt expand importance metal fat
+ticket software disappear corporate strange lip reading urban mental increasingly lunch educational
+somewhere farmer sugar planet favorite explore obtain enemy greatest complex surround athlete invite
+repeat carefully soul scientific impossible panel meaning mom married instrument predict weather
+presidential emotional commitment supreme bear pocket thin temperature surprise poll proposal
+consequence breath sight balance adopt minority straight connect works teaching belong aid advice
+okay photograph empty regional trail novel code somehow organize jury breast acknowledge theme storm
+union desk thanks fruit expensive yellow conclusion prime shadow struggle conclude analyst dance
+regulation being ring largely shift revenue mark locate county appearance package difficulty bridge
+recommend obvious basically email generate anymore propose thinking possibly trend visitor loan
+currently comfortable investor profit angry crew accident meal hearing traffic muscle notion capture
+prefer truly earth chest thick cash museum beauty emergency unique internal ethnic link stress
+content select root nose declare appreciate actual bottle hardly setting launch file sick outcome
+defend duty sheet ought ensure extremely extent component mix slow contrast zone wake airport brown
+shirt pilot warn ultimately cat contribution capacity ourselves estate guide circumstance snow
+politician steal pursue slip percentage meat funny neither soil surgery correct blame estimate due
+basketball golf investigate crazy significantly chain branch combination frequently governor relief
+user dad kick manner ancient silence rating golden motion gender solve fee landscape used bowl equal
+frame typical except conservative eliminate host hall trust ocean row producer afford meanwhile
+regime division confirm fix appeal mirror tooth smart length entirely rely topic complain variable
+telephone perception attract confidence bedroom secret debt rare tank nurse coverage opposition
+aside anywhere bond pleasure master era requirement fun expectation wing separate somewhat pour stir
+judgment beer reference tear doubt grant seriously minister totally hero industrial cloud stretch
+winner volume seed surprised fashion pepper busy intervention copy tip cheap aim cite welfare
+vegetable gray dish beach improvement everywhere opening overall divide initial terrible oppose
+contemporary route multiple essential league criminal careful core upper rush necessarily
+specifically tired employ holiday vast resolution household fewer apart witness match barely sector
+representative beneath beside incident limited proud flow faculty increased waste merely mass
+emphasize experiment definitely bomb enormous tone liberal massive engineer wheel decline invest
+cable towards expose rural narrow cream secretary gate solid hill typically noise grass
+unfortunately hat legislation succeed celebrate achievement fishing accuse useful reject talent
+taste characteristic milk escape cast sentence unusual closely convince height physician assess
+plenty virtually addition sharp creative lower approve explanation campus proper guilty acquire
+compete technical plus immigrant weak illegal hi alternative interaction column personality signal
+curriculum honor passenger assistance forever regard association twenty knock wrap lab display
+criticism asset depression spiritual musical journalist prayer suspect scholar warning climate
+cheese observation childhood payment sir permit cigarette definition priority bread creation
+graduate request emotion scream dramatic universe gap excellent deeply prosecutor lucky drag airline
+library agenda recover factory selection primarily roof unable expense initiative diet arrest
+funding therapy wash schedule sad brief housing post purchase existing steel regarding shout
+remaining visual fairly chip violent silent suppose self bike tea perceive comparison settlement
+layer planning description slide widely wedding inform portion territory immediate opponent abandon
+lake transform tension leading bother consist alcohol enable bend saving desert shall error cop
+valley stream domain reserve dealer lawsuit ease blind
+`;
+
+const FREQUENCY_RANK = new Map<string, number>(WORD_FREQUENCY_LIST.trim().split(/\s+/).map((w, i) => [w, i]));
+
+// How far down the frequency list a learner at each level can be expected to read comfortably.
+// The list stops at ~1,900 lemmas, so C1 knows all of it and only words off the list count as
+// new; at C2 (Infinity) those are assumed known too.
+const KNOWN_WORD_RANK: Record<CEFRLevel, number> = { A1: 400, A2: 800, B1: 1200, B2: 1600, C1: FREQUENCY_RANK.size, C2: Infinity };
+
+const IRREGULAR_FORMS: Record<string, string> = {
+  am: "be", is: "be", are: "be", was: "be", were: "be", been: "be", being: "be",
+  has: "have", had: "have", does: "do", did: "do", done: "do", went: "go", gone: "go",
+  said: "say", made: "make", took: "take", taken: "take", got: "get", gotten: "get", came: "come",
+  saw: "see", seen: "see", knew: "know", known: "know", thought: "think", told: "tell", gave: "give",
+  given: "give", found: "find", felt: "feel", left: "leave", kept: "keep", began: "begin", begun: "begin",
+  brought: "bring", wrote: "write", written: "write", stood: "stand", heard: "hear", meant: "mean",
+  met: "meet", ran: "run", paid: "pay", sat: "sit", spoke: "speak", spoken: "speak", led: "lead",
+  grew: "grow", grown: "grow", lost: "lose", fell: "fall", fallen: "fall", sent: "send", built: "build",
+  understood: "understand", spent: "spend", held: "hold", chose: "choose", chosen: "choose",
+  bought: "buy", caught: "catch", taught: "teach", ate: "eat", eaten: "eat", drove: "drive",
+  driven: "drive", broke: "break", broken: "break", won: "win", sold: "sell", slept: "sleep",
+  men: "man", women: "woman", children: "child", people: "person", feet: "foot", teeth: "tooth",
+  better: "good", best: "good", worse: "bad", worst: "bad", further: "far", lives: "life",
+};
+
+// Candidate dictionary forms of an inflected word, most likely first: "studies" → study,
+// "running" → run, "made" → make. Over-generates on purpose; callers keep the first hit.
+function baseForms(word: string): string[] {
+  const w = word.toLowerCase().replace(/’/g, "'").replace(/^can't$/, "can").replace(/^won't$/, "will").replace(/'(s|re|ve|ll|d|m)$|n't$/, "");
+  const forms = [w];
+  const add = (f: string) => { if (f.length > 1 && !forms.includes(f)) forms.push(f); };
+  if (IRREGULAR_FORMS[w]) add(IRREGULAR_FORMS[w]);
+  if (/ies$|ied$/.test(w)) add(w.slice(0, -3) + "y");
+  if (/(s|x|z|ch|sh)es$/.test(w)) add(w.slice(0, -2));
+  if (/[^s]s$/.test(w)) add(w.slice(0, -1));
+  for (const suffix of ["ed", "ing", "er", "est"]) {
+    if (!w.endsWith(suffix)) continue;
+    const stem = w.slice(0, -suffix.length);
+    add(stem);
+    add(stem + "e");
+    // "stopped" → stop, "running" → run
+    if (/([^aeiou])\1$/.test(stem)) add(stem.slice(0, -1));
+  }
+  if (w.endsWith("ily")) add(w.slice(0, -3) + "y");
+  if (w.endsWith("ly")) add(w.slice(0, -2));
+  return forms;
+}
+
+// The word book keyed by lower-case text, for matching inflected words in a text back to saved entries.
+function indexWordBook(words: Word[]) {
+  return new Map<string, Word>(words.map(w => [w.text.toLowerCase(), w]));
+}
+
+function findSavedWord(book: Map<string, Word>, word: string) {
+  for (const form of baseForms(word)) {
+    const saved = book.get(form);
+    if (saved) return saved;
+  }
+  return undefined;
+}
+
+function frequencyRank(word: string) {
+  let best = Infinity;
+  for (const form of baseForms(word)) best = Math.min(best, FREQUENCY_RANK.get(form) ?? Infinity);
+  return best;
+}
+
+type NewWordCandidate = { word: string; context: string };
+
+type VocabularyEstimate = {
+  // Running words, ignoring numbers and proper nouns
+  total: number;
+  unknown: number;
+  saved: number;
+  // Distinct likely-new words in order of first appearance
+  newWords: NewWordCandidate[];
+};
+
+function estimateVocabulary(text: string, level: CEFRLevel, book: Map<string, Word>): VocabularyEstimate {
+  const estimate: VocabularyEstimate = { total: 0, unknown: 0, saved: 0, newWords: [] };
+  const seen = new Set<string>();
+  for (const token of tokenizeText(text)) {
+    if (token.kind !== 'word') continue;
+    // Capitalised mid-sentence words that aren't common words are treated as names. Only the
+    // few characters before the token matter, which keeps long imports linear.
+    const sentenceStart = token.start === 0 || /[.!?]["'”’)]*\s+$/.test(text.slice(Math.max(0, token.start - 16), token.start));
+    if (!sentenceStart && /^[A-Z]/.test(token.text) && !FREQUENCY_RANK.has(token.text.toLowerCase())) continue;
+    estimate.total++;
+    if (findSavedWord(book, token.text)) { estimate.saved++; continue; }
+    // Hyphenated compounds are known when every part is.
+    if (KNOWN_WORD_RANK[level] === Infinity || token.text.split("-").every(p => frequencyRank(p) < KNOWN_WORD_RANK[level])) continue;
+    estimate.unknown++;
+    const key = baseForms(token.text)[0];
+    if (seen.has(key)) continue;
+    seen.add(key);
+    estimate.newWords.push({ word: token.text.toLowerCase(), context: sentenceAround(text, token.start) });
+  }
+  return estimate;
+}
+
+// --- Shared UI Components ---
+
+const Tooltip = ({ tooltip, onSave, onClose }: { tooltip: TooltipState | null, onSave: (text: string, translation: string, meta?: WordMeta) => void, onClose: () => void }) => {
+  if (!tooltip || !tooltip.visible) return null;
+  const { entry, phrase, explanation } = tooltip;
+  const context = tooltip.context || undefined;
+  const savePhrase = (text: string, meaning: string) => onSave(text, meaning, { kind: 'phrase', context, source: tooltip.source });
+  const saveButton = (onClick: () => void) => (
+    <button onClick={onClick} className="text-emerald-400 hover:text-emerald-300 text-xs font-bold flex items-center gap-1 shrink-0">
+      <Plus size={14} /> 生词本
+    </button>
+  );
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onClick={onClose} />
+      <div 
+        className={`fixed z-50 bg-slate-800 text-white text-sm p-4 rounded-xl shadow-xl -translate-x-1/2 ${tooltip.below ? 'translate-y-2' : '-translate-y-[105%]'} ${tooltip.kind === 'sentence' ? 'w-80' : 'w-72'} max-h-80 overflow-y-auto animate-in fade-in zoom-in duration-200`}
+        style={{ top: tooltip.y, left: tooltip.x }}
+      >
+         <div className="flex justify-between items-start gap-2 mb-2">
+           {tooltip.kind === 'word' ? (
+             <div>
+               <span className="font-bold text-base">{entry?.lemma || tooltip.word}</span>
+               {entry && entry.lemma.toLowerCase() !== tooltip.word.toLowerCase() && <span className="text-[10px] text-slate-400 ml-2">← {tooltip.word}</span>}
+               {entry?.phonetic && <p className="text-xs text-slate-400 font-mono">{entry.phonetic}</p>}
+             </div>
+           ) : tooltip.kind === 'phrase' ? (
+             <div>
+               <span className="font-bold text-base">{phrase?.phrase || tooltip.word}</span>
+               {phrase && phrase.phrase.toLowerCase() !== tooltip.word.toLowerCase() && <p className="text-[10px] text-slate-400">← {tooltip.word}</p>}
+             </div>
+           ) : (
+             <p className="italic text-slate-200 leading-snug">{tooltip.word}</p>
+           )}
+           {entry && saveButton(() => {
+             onSave(entry.lemma, summarizeEntry(entry), { context, source: tooltip.source, phonetic: entry.phonetic || undefined });
+             onClose();
+           })}
+           {phrase && saveButton(() => {
+             savePhrase(phrase.phrase, phrase.meaning);
+             onClose();
+           })}
+         </div>
+         {tooltip.loading && <div className="text-slate-300 text-xs"><RefreshCw className="animate-spin inline mr-1" size={12} />{tooltip.kind === 'sentence' ? '解析中...' : '查询中...'}</div>}
+         {tooltip.error && <div className="text-rose-300 text-xs">{tooltip.error}</div>}
+         {entry && (
+           <div className="space-y-2">
+             <ul className="space-y-1">
+               {entry.senses.map((sense, i) => <li key={i} className="leading-snug"><span className="text-emerald-300 text-xs italic mr-1">{sense.partOfSpeech}</span>{sense.meaning}</li>)}
+             </ul>
+             {entry.example && (
+               <div className="border-t border-white/10 pt-2 text-xs">
+                 <p className="italic text-slate-200">{entry.example}</p>
+                 {entry.exampleTranslation && <p className="text-slate-400 mt-0.5">{entry.exampleTranslation}</p>}
+               </div>
+             )}
+           </div>
+         )}
+         {phrase && (
+           <div className="space-y-2">
+             <p className="leading-snug">{phrase.meaning}</p>
+             {phrase.usage && <p className="text-xs text-slate-300 leading-snug">{phrase.usage}</p>}
+             {phrase.example && (
+               <div className="border-t border-white/10 pt-2 text-xs">
+                 <p className="italic text-slate-200">{phrase.example}</p>
+                 {phrase.exampleTranslation && <p className="text-slate-400 mt-0.5">{phrase.exampleTranslation}</p>}
+               </div>
+             )}
+           </div>
+         )}
+         {explanation && (
+           <div className="space-y-2">
+             <p className="leading-snug">{explanation.translation}</p>
+             {explanation.grammar.length > 0 && (
+               <ul className="border-t border-white/10 pt-2 text-xs text-slate-300 space-y-1 list-disc pl-4">
+                 {explanation.grammar.map((point, i) => <li key={i} className="leading-snug">{point}</li>)}
+               </ul>
+             )}
+             {explanation.keyPhrases.length > 0 && (
+               <div className="border-t border-white/10 pt-2 space-y-1">
+                 {explanation.keyPhrases.map((kp, i) => (
+                   <div key={i} className="flex justify-between items-start gap-2 text-xs">
+                     <p className="leading-snug"><span className="font-bold text-emerald-300">{kp.phrase}</span> {kp.meaning}</p>
+                     <button onClick={() => savePhrase(kp.phrase, kp.meaning)} className="text-emerald-400 hover:text-emerald-300 shrink-0" title="加入生词本"><Plus size={14} /></button>
+                   </div>
+                 ))}
+               </div>
+             )}
+           </div>
+         )}
+         {!tooltip.below && <div className="absolute top-full left-1/2 -translate-x-1/2 border-8 border-transparent border-t-slate-800"></div>}
+      </div>
+    </>
+  );
+};
+
+// Pronunciation button; shows a spinner while a clip is being synthesized for the first time.
+const SpeakButton = ({ text, speech, className, children }: { text: string, speech: SpeechSettings, className?: string, children?: React.ReactNode }) => {
+  const [loading, setLoading] = useState(false);
+  const play = async () => {
+    setLoading(true);
+    try { await pronounce(text, speech); } finally { setLoading(false); }
+  };
+  return (
+    <button onClick={play} disabled={loading} className={className} title="朗读">
+      {loading ? <RefreshCw size={16} className="animate-spin" /> : children || <Volume2 size={18} />}
+    </button>
+  );
+};
+
+const WORD_SOURCE_LABELS: Record<WordSource, string> = { live: "口语", listen: "听力", read: "阅读" };
+
+// Bolds the saved word (and its inflections, e.g. "run" in "running") inside its context sentence.
+const HighlightedContext = ({ text, word }: { text: string, word: string }) => {
+  const pattern = new RegExp(`(\\b${word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\w*)`, "i");
+  return <>{text.split(pattern).map((part, i) => i % 2 ? <b key={i} className="text-emerald-700 not-italic">{part}</b> : part)}</>;
+};
+
+const ErrorBanner = ({ message, onRetry }: { message: string | null, onRetry?: () => void }) => {
+  if (!message) return null;
+  return (
+    <div className="bg-rose-50 border border-rose-100 text-rose-700 rounded-xl p-4 text-sm flex items-start gap-3">
+      <AlertCircle size={18} className="shrink-0 mt-0.5" />
+      <p className="flex-1 leading-relaxed">{message}</p>
+      {onRetry && <button onClick={onRetry} className="shrink-0 font-bold text-rose-600 flex items-center gap-1"><RefreshCw size={14} /> 重试</button>}
+    </div>
+  );
+};
+
+// --- Shared Tooltip Logic Hook ---
+
+type CachedLookup = { key: string; entry: unknown; fetchedAt: number };
+
+// Lookups are cached in IndexedDB by kind and lower-case text; the in-memory map only holds
+// requests in flight, collapsing concurrent lookups of the same text into one model call.
+const lookupCache = new Map<string, Promise<any>>();
+
+// Phrase and sentence keys are free text, so the store keeps only the newest entries.
+const MAX_CACHED_LOOKUPS = 2000;
+const PRUNE_EVERY_LOOKUPS = 50;
+let lookupsSincePrune = PRUNE_EVERY_LOOKUPS;
+
+function cacheLookup(key: string, entry: unknown) {
+  return storage.put<CachedLookup>('lookups', { key, entry, fetchedAt: Date.now() })
+    .then(() => {
+      if (++lookupsSincePrune < PRUNE_EVERY_LOOKUPS) return;
+      lookupsSincePrune = 0;
+      return storage.prune<CachedLookup>('lookups', MAX_CACHED_LOOKUPS, l => l.fetchedAt);
+    })
+    .catch(e => console.error("Failed to cache lookup", e));
+}
+
+function cachedLookup<T>(key: string, prompt: string, task: AITask, schema: Schema<T>): Promise<T> {
+  let pending = lookupCache.get(key);
+  if (!pending) {
+    pending = (async () => {
+      try {
+        const cached = await storage.get<CachedLookup>('lookups', key).catch(() => undefined);
+        if (cached) return cached.entry as T;
+        const entry = await generateValidated(prompt, task, schema);
+        // Stays in the map until stored, so a lookup in between doesn't call the model again.
+        await cacheLookup(key, entry);
+        return entry;
+      } finally {
+        lookupCache.delete(key);
+      }
+    })();
+    lookupCache.set(key, pending);
+  }
+  return pending;
+}
+
+// Single words keep their bare key so entries cached before phrase lookups existed still hit.
+function lookupDictionary(word: string): Promise<DictionaryEntry> {
+  const prompt = `Give a learner's dictionary entry for the English word "${word}". Return JSON { "lemma": "dictionary form", "phonetic": "/IPA/", "senses": [{ "partOfSpeech": "n.", "meaning": "中文释义" }], "example": "an English example sentence", "exampleTranslation": "例句的中文翻译" } with the 1-4 most common senses.`;
+  return cachedLookup(word.toLowerCase(), prompt, 'wordLookup', DictionaryEntrySchema);
+}
+
+function lookupPhrase(phrase: string, context: string): Promise<PhraseEntry> {
+  const prompt = `Explain the English phrase "${phrase}" as used in: "${context}". If it is a phrasal verb, idiom or collocation, give its base form. Return JSON { "phrase": "base form", "meaning": "中文释义", "usage": "中文用法说明", "example": "another English example", "exampleTranslation": "例句的中文翻译" }.`;
+  return cachedLookup(`phrase:${phrase.toLowerCase()}`, prompt, 'phraseLookup', PhraseEntrySchema);
+}
+
+function explainSentence(sentence: string): Promise<SentenceExplanation> {
+  const prompt = `Explain this English sentence for a Chinese learner: "${sentence}". Return JSON { "translation": "中文翻译", "grammar": ["用中文说明的语法要点"], "keyPhrases": [{ "phrase": "useful phrase from the sentence", "meaning": "中文释义" }] } with 1-4 grammar points and up to 3 key phrases.`;
+  return cachedLookup(`sentence:${sentence.toLowerCase()}`, prompt, 'sentenceExplain', SentenceExplanationSchema);
+}
+
+// The one-line translation stored on a Word, e.g. "n. 韧性；adj. 有韧性的".
+function summarizeEntry(entry: DictionaryEntry) {
+  return entry.senses.map(s => `${s.partOfSpeech} ${s.meaning}`.trim()).join("；");
+}
+
+// The sentence of `text` that contains the character at `offset`.
+function sentenceAround(text: string, offset: number) {
+  const before = text.slice(0, offset).search(/[^.!?\n]*$/);
+  const after = text.slice(offset).search(/[.!?\n]/);
+  return text.slice(before, after === -1 ? text.length : offset + after + 1).trim();
+}
+
+type TextToken = { text: string; kind: 'word' | 'number' | 'other'; start: number };
+
+// Words keep inner apostrophes and hyphens ("don't", "well-known"), numbers keep separators and
+// ordinal/percent suffixes ("3.5", "1,000", "21st", "50%"); everything else passes through as
+// 'other'. A trailing possessive apostrophe ("students’") is left out so the word looks up as the noun.
+const TOKEN_PATTERN = /([A-Za-z]+(?:['’-][A-Za-z]+)*)|(\d+(?:[.,:]\d+)*(?:st|nd|rd|th|%)?)/g;
+
+function tokenizeText(text: string): TextToken[] {
+  const tokens: TextToken[] = [];
+  let last = 0;
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const start = match.index!;
+    if (start > last) tokens.push({ text: text.slice(last, start), kind: 'other', start: last });
+    tokens.push({ text: match[0], kind: match[1] ? 'word' : 'number', start });
+    last = start + match[0].length;
+  }
+  if (last < text.length) tokens.push({ text: text.slice(last), kind: 'other', start: last });
+  return tokens;
+}
+
+// Selections longer than this, or ending a sentence, get a sentence explanation instead of a phrase lookup.
+const MAX_PHRASE_WORDS = 6;
+// How long a touch selection has to stay unchanged before it's looked up
+const SELECTION_SETTLE_MS = 700;
+
+type TooltipState = {
+  visible: boolean;
+  x: number;
+  y: number;
+  // Open below the selection when there's no room above it
+  below: boolean;
+  kind: 'word' | 'phrase' | 'sentence';
+  // The clicked word or selected text
+  word: string;
+  context: string;
+  source?: WordSource;
+  entry: DictionaryEntry | null;
+  phrase: PhraseEntry | null;
+  explanation: SentenceExplanation | null;
+  error: string | null;
+  loading: boolean;
+};
+
+// What LookupText needs from useWordLookup; `touch` is whether the last pointer was a finger or
+// pen, in which case selections are read from selectionchange rather than mouseup.
+type WordLookupHandlers = {
+  lookupWord: (word: string, e: React.MouseEvent, context?: string) => void;
+  lookupSelection: (text: string) => void;
+  containers: WeakMap<Element, string>;
+  touch: React.MutableRefObject<boolean>;
+};
+
+// `wordStatus` marks words already in the word book, e.g. to underline them in the reader.
+type InteractiveTextProps = { text: string, className?: string, isDark?: boolean, wordStatus?: (word: string) => 'saved' | 'due' | null };
+
+// Declared at the top level so re-renders of the page update the text in place; a component
+// declared inside the hook would be a new type each render and remount, dropping any selection.
+const LookupText = ({ text, className, isDark = false, wordStatus, handlers }: InteractiveTextProps & { handlers: React.RefObject<WordLookupHandlers> }) => {
+  if (!text) return null;
+  return (
+    <span
+      ref={el => { if (el) handlers.current.containers.set(el, text); }}
+      className={className}
+      onMouseUp={() => { if (!handlers.current.touch.current) handlers.current.lookupSelection(text); }}
+    >
+      {tokenizeText(text).map((token, index) => {
+        if (token.kind === 'word') {
+           const status = wordStatus?.(token.text);
+           return (
+             <span 
+              key={index} 
+              onClick={(e) => handlers.current.lookupWord(token.text, e, sentenceAround(text, token.start))} 
+              className={`cursor-pointer rounded-[2px] transition-colors ${
+                isDark 
+                ? 'hover:bg-emerald-500/30 hover:text-emerald-300' 
+                : 'hover:bg-emerald-100 hover:text-emerald-900'
+              } ${status === 'due' ? 'bg-amber-100 underline decoration-amber-500 decoration-2 underline-offset-4' : status === 'saved' ? 'underline decoration-emerald-400 decoration-dotted decoration-2 underline-offset-4' : ''}`}
+             >
+              {token.text}
+             </span>
+           );
+        }
+        return <span key={index}>{token.text}</span>;
+      })}
+    </span>
+  );
+};
+
+const useWordLookup = (onSaveWord: (text: string, translation: string, meta?: WordMeta) => void, source?: WordSource) => {
+  const [tooltip, setTooltip] = useState<TooltipState | null>(null);
+
+  const open = async <T,>(kind: TooltipState['kind'], text: string, context: string, rect: DOMRect, load: () => Promise<T>, field: 'entry' | 'phrase' | 'explanation') => {
+    const below = rect.top < 280;
+    setTooltip({
+       visible: true,
+       x: Math.min(Math.max(rect.left + rect.width / 2, 150), window.innerWidth - 150),
+       y: below ? rect.bottom : rect.top,
+       below,
+       kind,
+       word: text,
+       context,
+       source,
+       entry: null,
+       phrase: null,
+       explanation: null,
+       error: null,
+       loading: true
+    });
+
+    try {
+      const result = await load();
+      setTooltip(prev => prev && prev.word === text ? ({ ...prev, [field]: result, loading: false }) : prev);
+    } catch (e) {
+      setTooltip(prev => prev && prev.word === text ? ({ ...prev, error: describeError(e), loading: false }) : prev);
+    }
+  };
+
+  const lookupWord = (word: string, e: React.MouseEvent, context = "") => {
+    e.stopPropagation();
+    open('word', word, context, (e.target as HTMLElement).getBoundingClientRect(), () => lookupDictionary(word), 'entry');
+  };
+
+  // Drag-selecting (or long-pressing and extending) across several words looks up the
+  // selection as a phrase, or explains it as a sentence when it's long or complete.
+  const lookupSelection = (text: string) => {
+    const selection = window.getSelection();
+    const selected = selection?.toString().replace(/\s+/g, " ").trim() || "";
+    if (!selection || !selection.rangeCount || tokenizeText(selected).filter(t => t.kind === 'word').length < 2) return;
+    const rect = selection.getRangeAt(0).getBoundingClientRect();
+    const offset = text.replace(/\s+/g, " ").indexOf(selected);
+    const context = offset === -1 ? selected : sentenceAround(text.replace(/\s+/g, " "), offset);
+    selection.removeAllRanges();
+    const isSentence = tokenizeText(selected).filter(t => t.kind === 'word').length > MAX_PHRASE_WORDS || /[.!?]["'”’)]*$/.test(selected);
+    if (isSentence) open('sentence', selected, context, rect, () => explainSentence(selected), 'explanation');
+    else open('phrase', selected, context, rect, () => lookupPhrase(selected, context), 'phrase');
+  };
+
+  // On touch screens a selection is extended by dragging the native handles, which fires no
+  // touchend on the text, so touch selections are read from selectionchange once they settle.
+  // Only selections that start and end inside one of this hook's text containers count.
+  const containersRef = useRef(new WeakMap<Element, string>());
+  const touchRef = useRef(false);
+  const handlersRef = useRef<WordLookupHandlers>(null!);
+  handlersRef.current = { lookupWord, lookupSelection, containers: containersRef.current, touch: touchRef };
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const containerOf = (node: Node | null) => {
+      for (let el = node instanceof Element ? node : node?.parentElement; el; el = el.parentElement) {
+        if (containersRef.current.has(el)) return el;
+      }
+      return null;
+    };
+    const onPointerDown = (e: PointerEvent) => { touchRef.current = e.pointerType !== 'mouse'; };
+    const onSelectionChange = () => {
+      clearTimeout(timer);
+      const selection = window.getSelection();
+      if (!touchRef.current || !selection || selection.isCollapsed) return;
+      const container = containerOf(selection.anchorNode);
+      if (!container || containerOf(selection.focusNode) !== container) return;
+      timer = setTimeout(() => handlersRef.current.lookupSelection(containersRef.current.get(container)!), SELECTION_SETTLE_MS);
+    };
+    document.addEventListener('pointerdown', onPointerDown, true);
+    document.addEventListener('selectionchange', onSelectionChange);
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener('pointerdown', onPointerDown, true);
+      document.removeEventListener('selectionchange', onSelectionChange);
+    };
+  }, []);
+
+  // Created once per hook so its identity is stable; the handlers are read through the ref.
+  const [InteractiveText] = useState(() => (props: InteractiveTextProps) => <LookupText {...props} handlers={handlersRef} />);
+
+  return { tooltip, setTooltip, lookupWord, InteractiveText };
+};
+
+// --- Routing ---
+
+// Navigation lives in the URL hash: "#/read" opens a tab, "#/read/<lessonId>" an open lesson
+// and "#/review/cards" a review sub-tab, so back, refresh and bookmarks all land in place.
+// Lessons are only stored in this browser, so a lesson link doesn't open on another device.
+
+type AppTab = "home" | "live" | "translate" | "read" | "listen" | "review" | "profile" | "archive";
+
+type AppRoute = { tab: AppTab; sub: string | null };
+
+const APP_TABS: AppTab[] = ["home", "live", "translate", "read", "listen", "review", "profile", "archive"];
+
+function parseRoute(hash: string): AppRoute {
+  const [tab, sub] = hash.replace(/^#\/?/, "").split("/").map(decodeURIComponent);
+  return APP_TABS.includes(tab as AppTab) ? { tab: tab as AppTab, sub: sub || null } : { tab: "home", sub: null };
+}
+
+function routeHash(route: AppRoute) {
+  return `#/${route.tab}${route.sub ? `/${encodeURIComponent(route.sub)}` : ""}`;
+}
+
+function useHashRoute() {
+  const [route, setRoute] = useState<AppRoute>(() => parseRoute(window.location.hash));
+
+  useEffect(() => {
+    const onChange = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener("hashchange", onChange);
+    return () => window.removeEventListener("hashchange", onChange);
+  }, []);
+
+  // `replace` swaps the current history entry, for redirects the back button shouldn't revisit.
+  const navigate = useCallback((next: AppRoute, replace = false) => {
+    const hash = routeHash(next);
+    if (hash === window.location.hash) return;
+    if (replace) {
+      history.replaceState(null, "", hash);
+      setRoute(next);
+    } else window.location.hash = hash;
+  }, []);
+
+  return [route, navigate] as const;
+}
 
-const useWordLookup = (onSaveWord: (text: string, translation: string) => void) => {
-  const [tooltip, setTooltip] = useState<{ visible: boolean; x: number; y: number; word: string; definition: string; loading: boolean; } | null>(null);
+// Older lessons are dropped once there are more than this many; their links stop opening.
+const MAX_SAVED_LESSONS = 100;
 
-  const lookupWord = async (word: string, e: React.MouseEvent) => {
-    e.stopPropagation();
-    const rect = (e.target as HTMLElement).getBoundingClientRect();
-    setTooltip({
-       visible: true,
-       x: rect.left + rect.width / 2,
-       y: rect.top, 
-       word: word,
-       definition: "查询中...",
-       loading: true
-    });
+// A failed write rejects, so callers only route to lessons that can be opened again;
+// pruning is housekeeping and never fails the save.
+async function saveLesson(lesson: StoredLesson) {
+  await storage.put<StoredLesson>('lessons', lesson);
+  storage.prune<StoredLesson>('lessons', MAX_SAVED_LESSONS, l => l.createdAt)
+    .catch(e => console.error("Failed to prune saved lessons", e));
+  return lesson.id;
+}
 
-    try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const result = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: `Translate the English word "${word}" to Chinese. Just the translation.`,
-      });
-      const def = result.text?.trim() || "未知";
-      setTooltip(prev => prev ? ({ ...prev, definition: def, loading: false }) : null);
-    } catch (e) {
-      setTooltip(prev => prev ? ({ ...prev, definition: "Error", loading: false }) : null);
-    }
-  };
+const missingLessonMessage = (what: string) => `找不到${what}。课程只保存在创建它的浏览器里，可能已被清理，或链接来自另一台设备。`;
 
-  const InteractiveText = ({ text, className, isDark = false }: { text: string, className?: string, isDark?: boolean }) => {
-    if (!text) return null;
-    const parts = text.split(/([a-zA-Z]+(?:'[a-z]+)?)/);
-    return (
-      <span className={className}>
-        {parts.map((part, index) => {
-          if (/^[a-zA-Z]/.test(part)) {
-             return (
-               <span 
-                key={index} 
-                onClick={(e) => lookupWord(part, e)} 
-                className={`cursor-pointer rounded-[2px] transition-colors ${
-                  isDark 
-                  ? 'hover:bg-emerald-500/30 hover:text-emerald-300' 
-                  : 'hover:bg-emerald-100 hover:text-emerald-900'
-                }`}
-               >
-                {part}
-               </span>
-             );
-          }
-          return <span key={index}>{part}</span>;
-        })}
-      </span>
-    );
-  };
+async function loadLesson<M extends StoredLesson['module']>(module: M, id: string) {
+  const lesson = await storage.get<StoredLesson>('lessons', id);
+  return lesson?.module === module ? lesson as Extract<StoredLesson, { module: M }> : null;
+}
 
-  return { tooltip, setTooltip, lookupWord, InteractiveText };
-};
+const newLessonId = () => uniqueTimestampId().toString(36);
+
+// Opens the lesson named by the route once per id: a lesson the module just generated is
+// already on screen, anything else (a reload, a shared link, history) is read back from storage.
+function useRoutedLesson<M extends StoredLesson['module']>(module: M, lessonId: string | null, currentId: string | null, open: (lesson: Extract<StoredLesson, { module: M }>) => void, close: () => void, onMissing: () => void) {
+  useEffect(() => {
+    if (!lessonId) { close(); return; }
+    if (lessonId === currentId) return;
+    let cancelled = false;
+    loadLesson(module, lessonId)
+      .then(lesson => { if (!cancelled) lesson ? open(lesson) : onMissing(); })
+      .catch(e => { console.error("Failed to load lesson", e); if (!cancelled) onMissing(); });
+    return () => { cancelled = true; };
+  }, [lessonId]);
+}
 
 // --- App Component ---
 
 const App = () => {
-  const [activeTab, setActiveTab] = useState<"home" | "live" | "translate" | "read" | "listen" | "review">("home");
+  const [route, navigate] = useHashRoute();
+  const activeTab = route.tab;
+  const setActiveTab = (tab: AppTab) => navigate({ tab, sub: null });
+  // Opens (or with null, closes) a lesson or sub-tab inside the current tab
+  const openSub = (sub: string | null, replace = false) => navigate({ tab: route.tab, sub }, replace);
   const [dailyConfig, setDailyConfig] = useState<DailyConfig | null>(null);
+  // A past day reopened from the archive; the modules use its topics until the learner returns to today.
+  const [pastConfig, setPastConfig] = useState<DailyConfig | null>(null);
   const [loadingConfig, setLoadingConfig] = useState(true);
   const [needsApiKey, setNeedsApiKey] = useState(false);
+  const [configError, setConfigError] = useState<string | null>(null);
 
-  const [savedWords, setSavedWords] = useState<Word[]>(() => {
-    const saved = localStorage.getItem("lingo_words");
-    try {
-      return saved ? JSON.parse(saved) : [];
-    } catch { return []; }
-  });
-  const [mistakes, setMistakes] = useState<Mistake[]>(() => {
-    const saved = localStorage.getItem("lingo_mistakes");
-    try {
-      return saved ? JSON.parse(saved) : [];
-    } catch { return []; }
-  });
+  const [savedWords, setSavedWords, wordsReady] = usePersistentList<Word>('words', w => w.text, normalizeWord, (a, b) => b.timestamp - a.timestamp);
+  const [mistakes, setMistakes, mistakesReady] = usePersistentList<Mistake>('mistakes', m => m.id, normalizeMistake, (a, b) => b.timestamp - a.timestamp);
+  const [activity, setActivity, activityReady] = usePersistentList<ActivityEvent>('activity', e => e.id, normalizeActivity, (a, b) => b.at - a.at);
+  const [profile, setProfile] = useState<LearnerProfile>(DEFAULT_PROFILE);
+  const [profileReady, setProfileReady] = useState(false);
+  const profileRef = useRef(profile);
+  profileRef.current = profile;
 
   useEffect(() => {
-    localStorage.setItem("lingo_words", JSON.stringify(savedWords));
-  }, [savedWords]);
+    loadProfile()
+      .then(setProfile)
+      .catch(e => console.error("Failed to load profile", e))
+      .finally(() => setProfileReady(true));
+  }, []);
 
   useEffect(() => {
-    localStorage.setItem("lingo_mistakes", JSON.stringify(mistakes));
-  }, [mistakes]);
+    if (profileReady) saveProfile(profile).catch(e => console.error("Failed to save profile", e));
+  }, [profile, profileReady]);
 
   const handleKeySelection = async () => {
     try {
@@ -282,31 +2839,29 @@ const App = () => {
     }
   };
 
-  const fetchDailyConfig = useCallback(async () => {
-    setLoadingConfig(true);
-    const today = new Date().toISOString().split('T')[0];
-    const cached = localStorage.getItem("lingo_daily_config");
-    
+  // `regenerate` skips today's cached config and replaces it with a fresh one.
+  const fetchDailyConfig = useCallback(async (regenerate = false) => {
+    setLoadingConfig(true); setConfigError(null);
+    const today = localDateKey();
+    const cached = regenerate ? undefined : await storage.get<DailyConfig>('dailyConfigs', today).catch(() => undefined);
+
     if (cached) {
-      try {
-        const parsed = JSON.parse(cached);
-        if (parsed.date === today) {
-          setDailyConfig(parsed);
-          setLoadingConfig(false);
-          return;
-        }
-      } catch {}
+      setDailyConfig(cached);
+      setLoadingConfig(false);
+      return;
     }
 
     try {
-      const hasKey = await window.aistudio.hasSelectedApiKey();
-      if (!hasKey) {
-        setNeedsApiKey(true);
-        setLoadingConfig(false);
-        return;
+      const provider = getAIProvider();
+      if (provider.requiresApiKey) {
+        const hasKey = await window.aistudio.hasSelectedApiKey();
+        if (!hasKey) {
+          setNeedsApiKey(true);
+          setLoadingConfig(false);
+          return;
+        }
       }
 
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
       const prompt = `Generate a daily English learning config for date: ${today}. 
       Return strictly JSON with this structure:
       {
@@ -317,21 +2872,18 @@ const App = () => {
         "translationTopics": [ "Topic" ],
         "readingArticles": [ { "id": 1, "title": "Title", "source": "Source", "prompt": "Prompt" } ]
       }
-      Generate 8 topics for live, 5 for listening, 5 for translation, 4 for reading.`;
-
-      const result = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: prompt,
-        config: { responseMimeType: "application/json" }
-      });
+      Generate 8 topics for live, 5 for listening, 5 for translation, 4 for reading.
+      ${profilePrompt(profileRef.current)} Choose the daily word and all topics to suit this learner.`;
 
-      const newConfig = JSON.parse(result.text || "{}");
+      const newConfig = { ...await generateValidated(prompt, 'dailyConfig', DailyConfigSchema), date: today };
       setDailyConfig(newConfig);
-      localStorage.setItem("lingo_daily_config", JSON.stringify(newConfig));
+      storage.put('dailyConfigs', newConfig).catch(e => console.error("Failed to cache daily config", e));
     } catch (e: any) {
       console.error("Failed to fetch daily config", e);
       if (e.message?.includes("Requested entity was not found") || e.message?.includes("Network error")) {
         setNeedsApiKey(true);
+      } else {
+        setConfigError(describeError(e));
       }
     } finally {
       setLoadingConfig(false);
@@ -339,23 +2891,66 @@ const App = () => {
   }, []);
 
   useEffect(() => {
-    fetchDailyConfig();
-  }, [fetchDailyConfig]);
+    if (profileReady) fetchDailyConfig();
+  }, [fetchDailyConfig, profileReady]);
+
+  const logActivity = (event: NewActivity) => {
+    setActivity(prev => [{ ...event, id: uniqueTimestampId(), at: Date.now() }, ...prev]);
+  };
 
-  const addWord = (text: string, translation: string) => {
-    if (savedWords.some(w => w.text.toLowerCase() === text.toLowerCase())) return;
-    setSavedWords(prev => [{ text, translation, timestamp: Date.now() }, ...prev]);
+  // Checked again against the latest list: callers that save after an await, or several words in
+  // a row, hold a `savedWords` from an earlier render.
+  const addWord = (text: string, translation: string, meta?: WordMeta) => {
+    if (hasWord(savedWords, text)) return;
+    setSavedWords(prev => hasWord(prev, text) ? prev : [createWord(text, translation, Date.now(), meta), ...prev]);
+    logActivity({ module: 'vocabulary', kind: 'word' });
   };
 
   const removeWord = (text: string) => {
     setSavedWords(prev => prev.filter(w => w.text !== text));
   };
 
-  const addMistake = (mistake: Omit<Mistake, 'id' | 'timestamp'>) => {
-    const newMistake = { ...mistake, id: Date.now(), timestamp: Date.now() };
+  const importBackup = async (incoming: BackupBundle, invalid: number): Promise<ImportSummary> => {
+    const merged = mergeBackup(savedWords, mistakes, incoming);
+    setSavedWords(merged.words);
+    setMistakes(merged.mistakes);
+    let addedConfigs = 0;
+    for (const config of incoming.dailyConfigs) {
+      if (await storage.get('dailyConfigs', config.date)) continue;
+      await storage.put('dailyConfigs', config);
+      addedConfigs++;
+    }
+    return { addedWords: merged.addedWords, skippedWords: merged.skippedWords, addedMistakes: merged.addedMistakes, skippedMistakes: merged.skippedMistakes, addedConfigs, invalid };
+  };
+
+  const reviewWord = (text: string, grade: ReviewGrade) => {
+    logActivity({ module: 'vocabulary', kind: 'review', correct: grade === 'again' ? 0 : 1, total: 1 });
+    setSavedWords(prev => prev.map(w => w.text === text ? scheduleReview(w, grade) : w));
+  };
+
+  const addMistake = (mistake: NewMistake) => {
+    const newMistake = { ...mistake, id: uniqueTimestampId(), timestamp: Date.now(), streak: 0, mastered: false };
     setMistakes(prev => [newMistake, ...prev]);
   };
 
+  const recordAnswerResult = (module: AnswerModule, correct: boolean) => {
+    setProfile(prev => recordAnswer(prev, module, correct));
+  };
+
+  const recordRedrill = (id: number, correct: boolean) => {
+    recordAnswerResult('redrill', correct);
+    logActivity({ module: 'mistakes', kind: 'review', correct: correct ? 1 : 0, total: 1 });
+    setMistakes(prev => prev.map(m => {
+      if (m.id !== id) return m;
+      const streak = correct ? m.streak + 1 : 0;
+      return { ...m, streak, mastered: m.mastered || streak >= MASTERY_STREAK };
+    }));
+  };
+
+  const reactivateMistake = (id: number) => {
+    setMistakes(prev => prev.map(m => m.id === id ? { ...m, streak: 0, mastered: false } : m));
+  };
+
   const removeMistake = (id: number) => {
     setMistakes(prev => prev.filter(m => m.id !== id));
   };
@@ -378,7 +2973,9 @@ const App = () => {
     );
   }
 
-  if (loadingConfig) {
+  const shownConfig = pastConfig || dailyConfig;
+
+  if (loadingConfig || !wordsReady || !mistakesReady || !profileReady || !activityReady) {
     return (
       <div className="flex flex-col h-screen bg-white items-center justify-center p-10 text-center gap-4">
          <Sparkles size={48} className="text-emerald-500 animate-bounce" />
@@ -391,17 +2988,41 @@ const App = () => {
   return (
     <div className="flex flex-col h-screen bg-slate-50 text-slate-900 max-w-md mx-auto shadow-2xl overflow-hidden relative border-x border-slate-200 font-sans">
       <main className="flex-1 overflow-y-auto scrollbar-hide">
-        {activeTab === "home" && <Dashboard onNavigate={setActiveTab} config={dailyConfig} />}
-        {activeTab === "live" && <LiveTutor onSaveWord={addWord} topics={dailyConfig?.liveTopics || []} />}
-        {activeTab === "translate" && <TranslationCoach onMistake={addMistake} topics={dailyConfig?.translationTopics || []} />}
-        {activeTab === "read" && <ReadingGym onSaveWord={addWord} featuredArticles={dailyConfig?.readingArticles || []} />}
-        {activeTab === "listen" && <ListeningLab onSaveWord={addWord} onMistake={addMistake} topics={dailyConfig?.listeningTopics || []} />}
+        {activeTab === "home" && (
+          <Dashboard
+            onNavigate={(tab, sub) => navigate({ tab, sub: sub || null })}
+            config={shownConfig}
+            isPast={!!pastConfig}
+            onBackToToday={() => setPastConfig(null)}
+            onRegenerate={() => fetchDailyConfig(true)}
+            wordSaved={!!shownConfig && hasWord(savedWords, shownConfig.dailyWord.word)}
+            onSaveWord={addWord}
+            profile={profile}
+            activity={activity}
+            dueCount={savedWords.filter(w => isDue(w)).length}
+            error={configError}
+            onRetry={() => fetchDailyConfig()}
+          />
+        )}
+        {activeTab === "archive" && <DailyArchive words={savedWords} onSaveWord={addWord} onOpen={config => { setPastConfig(config.date === dailyConfig?.date ? null : config); setActiveTab("home"); }} onBack={() => setActiveTab("home")} />}
+        {activeTab === "profile" && <ProfileSettings profile={profile} onChange={setProfile} onBack={() => setActiveTab("home")} />}
+        {activeTab === "live" && <LiveTutor onSaveWord={addWord} onMistake={addMistake} onActivity={logActivity} profile={profile} topics={shownConfig?.liveTopics || []} />}
+        {activeTab === "translate" && <TranslationCoach lessonId={route.sub} onOpenLesson={openSub} onMistake={addMistake} onAnswer={recordAnswerResult} onActivity={logActivity} profile={profile} topics={shownConfig?.translationTopics || []} />}
+        {activeTab === "read" && <ReadingGym lessonId={route.sub} onOpenLesson={openSub} words={savedWords} onSaveWord={addWord} onAnswer={recordAnswerResult} onActivity={logActivity} profile={profile} featuredArticles={shownConfig?.readingArticles || []} />}
+        {activeTab === "listen" && <ListeningLab lessonId={route.sub} onOpenLesson={openSub} onSaveWord={addWord} onMistake={addMistake} onAnswer={recordAnswerResult} onActivity={logActivity} profile={profile} topics={shownConfig?.listeningTopics || []} />}
         {activeTab === "review" && (
           <ReviewModule 
+            tab={route.sub}
+            onTab={openSub}
             words={savedWords} 
             mistakes={mistakes} 
+            speech={profile.speech}
             onRemoveWord={removeWord} 
             onRemoveMistake={removeMistake} 
+            onReviewWord={reviewWord}
+            onRedrill={recordRedrill}
+            onReactivateMistake={reactivateMistake}
+            onImport={importBackup}
           />
         )}
       </main>
@@ -427,13 +3048,7 @@ const NavButton = ({ icon, label, active, onClick }: any) => (
 
 // --- Dashboard Component ---
 
-const Dashboard = ({ onNavigate, config }: { onNavigate: (tab: any) => void, config: DailyConfig | null }) => {
-  const speak = (text: string) => {
-    const u = new SpeechSynthesisUtterance(text);
-    u.lang = 'en-US';
-    window.speechSynthesis.speak(u);
-  };
-
+const Dashboard = ({ onNavigate, config, isPast, onBackToToday, onRegenerate, wordSaved, onSaveWord, profile, activity, dueCount = 0, error = null, onRetry }: { onNavigate: (tab: AppTab, sub?: string) => void, config: DailyConfig | null, isPast: boolean, onBackToToday: () => void, onRegenerate: () => void, wordSaved: boolean, onSaveWord: (text: string, translation: string, meta?: WordMeta) => void, profile: LearnerProfile, activity: ActivityEvent[], dueCount?: number, error?: string | null, onRetry?: () => void }) => {
   const dw = config?.dailyWord || {
     word: "Resilience",
     phonetic: "/rɪˈzɪl.jəns/",
@@ -444,26 +3059,60 @@ const Dashboard = ({ onNavigate, config }: { onNavigate: (tab: any) => void, con
 
   return (
     <div className="p-5 space-y-6">
+      <ErrorBanner message={error} onRetry={onRetry} />
+      {isPast && (
+        <div className="flex items-center justify-between p-3 rounded-xl bg-amber-50 border border-amber-100 text-amber-700 text-sm">
+          <span>正在查看 {config?.date} 的课程</span>
+          <button onClick={onBackToToday} className="font-bold text-xs">回到今天</button>
+        </div>
+      )}
+      <button onClick={() => onNavigate("profile")} className="w-full flex items-center justify-between text-left">
+        <div className="flex items-center gap-2">
+          <span className="bg-emerald-600 text-white text-xs font-bold px-2 py-1 rounded-lg">{profile.level}</span>
+          <span className="text-sm font-bold text-slate-700">{CEFR_LABELS[profile.level]}</span>
+          {profile.goals.length > 0 && <span className="text-xs text-slate-400">· {profile.goals.map(g => GOAL_LABELS[g]).join(" / ")}</span>}
+        </div>
+        <span className="text-xs text-slate-400 flex items-center gap-1">
+          {profile.levelSource === 'auto' && Date.now() - profile.levelUpdatedAt < 3 * DAY_MS ? "已按近期正确率调整" : profile.levelSource === 'default' ? "测一测我的水平" : "学习档案"}
+          <ArrowRight size={14} />
+        </span>
+      </button>
       <div className="bg-gradient-to-br from-emerald-600 to-teal-700 rounded-2xl p-5 text-white shadow-lg relative overflow-hidden">
         <div className="absolute top-0 right-0 p-3 opacity-10"><Bookmark size={100} /></div>
         <div className="relative z-10">
-          <div className="flex items-center space-x-2 mb-3 opacity-90">
+          <div className="flex items-center justify-between mb-3 opacity-90">
             <span className="text-xs font-bold uppercase tracking-widest border border-white/30 px-2 py-0.5 rounded-full">Daily Word • {config?.date}</span>
+            <div className="flex gap-1">
+              {!isPast && <button onClick={() => { if (window.confirm("重新生成今天的单词、话题和文章？")) onRegenerate(); }} title="重新生成今日内容" className="p-1.5 rounded-full hover:bg-white/20"><RefreshCw size={16} /></button>}
+              <button onClick={() => onNavigate("archive")} title="往日课程" className="p-1.5 rounded-full hover:bg-white/20"><CalendarDays size={16} /></button>
+            </div>
           </div>
           <div className="flex items-end gap-3 mb-2">
             <h3 className="text-3xl font-bold">{dw.word}</h3>
-            <button onClick={() => speak(dw.word)} className="bg-white/20 hover:bg-white/30 p-2 rounded-full mb-1 transition-colors"><Volume2 size={18} /></button>
+            <SpeakButton text={dw.word} speech={profile.speech} className="bg-white/20 hover:bg-white/30 p-2 rounded-full mb-1 transition-colors" />
+            {config && <button onClick={() => onSaveWord(dw.word, dw.translation, { context: dw.example, phonetic: dw.phonetic })} disabled={wordSaved} className="bg-white/20 hover:bg-white/30 disabled:opacity-70 p-2 rounded-full mb-1 transition-colors" title={wordSaved ? "已在生词本" : "加入生词本"}>{wordSaved ? <CheckCircle size={18} /> : <Plus size={18} />}</button>}
           </div>
           <p className="text-emerald-100 text-sm italic mb-4 font-mono">{dw.phonetic} • n. {dw.translation}</p>
           <div className="bg-white/10 rounded-xl p-3 backdrop-blur-sm border border-white/10">
             <p className="text-sm font-medium leading-relaxed">"{dw.example}"</p>
             <div className="flex justify-between items-center mt-2">
                <p className="text-xs text-emerald-200">{dw.exampleCn}</p>
-               <button onClick={() => speak(dw.example)} className="text-emerald-200 hover:text-white"><Play size={14} /></button>
+               <SpeakButton text={dw.example} speech={profile.speech} className="text-emerald-200 hover:text-white"><Play size={14} /></SpeakButton>
             </div>
           </div>
         </div>
       </div>
+      <button onClick={() => onNavigate("review", "cards")} className="w-full bg-white border border-slate-200 rounded-xl p-4 flex items-center justify-between shadow-sm active:scale-[0.98] transition-all">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-emerald-50 rounded-lg text-emerald-600"><Layers size={20} /></div>
+          <div className="text-left">
+            <h3 className="font-bold text-slate-800 text-sm">今日待复习</h3>
+            <p className="text-xs text-slate-500">{dueCount > 0 ? "按记忆曲线安排的单词卡片" : "今天的复习已全部完成"}</p>
+          </div>
+        </div>
+        <span className={`text-2xl font-bold ${dueCount > 0 ? "text-emerald-600" : "text-slate-300"}`}>{dueCount}</span>
+      </button>
+      <ProgressPanel activity={activity} />
       <div className="grid grid-cols-2 gap-4">
         <ActionCard title="口语私教" desc="Native Audio 对话" icon={<Mic size={24} className="text-rose-500" />} color="bg-rose-50 border-rose-100" onClick={() => onNavigate("live")} />
         <ActionCard title="听力实验室" desc="精选场景听力" icon={<Headphones size={24} className="text-indigo-500" />} color="bg-indigo-50 border-indigo-100" onClick={() => onNavigate("listen")} />
@@ -474,6 +3123,73 @@ const Dashboard = ({ onNavigate, config }: { onNavigate: (tab: any) => void, con
   );
 };
 
+const ProgressPanel = ({ activity }: { activity: ActivityEvent[] }) => {
+  const { streak, practisedToday } = activityStreak(activity);
+  const week = weeklyActivity(activity);
+  const peak = Math.max(1, ...week.map(d => d.count));
+  const weekStart = shiftDays(new Date(), -6);
+  weekStart.setHours(0, 0, 0, 0);
+  const thisWeek = activity.filter(e => e.at >= weekStart.getTime());
+  const liveMinutes = Math.round(thisWeek.reduce((sum, e) => sum + (e.seconds || 0), 0) / 60);
+  const wordsAdded = thisWeek.filter(e => e.kind === 'word').length;
+  const reviews = thisWeek.filter(e => e.kind === 'review').length;
+  const lessons = thisWeek.filter(e => e.kind === 'lesson').length;
+  const trends = GRADED_MODULES.map(module => ({ module, trend: accuracyTrend(activity, module) })).filter(t => t.trend.length > 0);
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-4 shadow-sm space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-bold text-slate-800 text-sm">学习进度</h3>
+          <p className="text-xs text-slate-500">{practisedToday ? "今天已打卡" : streak > 0 ? "今天还没练习，别断了连续记录" : "完成任意练习即可开始打卡"}</p>
+        </div>
+        <div className="text-right">
+          <span className={`text-2xl font-bold ${streak > 0 ? "text-orange-500" : "text-slate-300"}`}>🔥 {streak}</span>
+          <p className="text-[10px] text-slate-400">连续天数</p>
+        </div>
+      </div>
+      <div className="flex items-end justify-between gap-2 h-20">
+        {week.map((day, i) => (
+          <div key={day.key} className="flex-1 flex flex-col items-center gap-1 h-full justify-end" title={`${day.key}：${day.count} 项`}>
+            <div className={`w-full rounded-t-md ${day.count ? (i === 6 ? "bg-emerald-500" : "bg-emerald-300") : "bg-slate-100"}`} style={{ height: `${Math.max(6, (day.count / peak) * 100)}%` }}></div>
+            <span className={`text-[10px] ${i === 6 ? "font-bold text-emerald-600" : "text-slate-400"}`}>{i === 6 ? "今" : day.weekday}</span>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-4 gap-2 text-center">
+        {[["练习", lessons], ["口语分钟", liveMinutes], ["新词", wordsAdded], ["复习", reviews]].map(([label, value]) => (
+          <div key={label} className="bg-slate-50 rounded-lg py-2">
+            <div className="font-bold text-slate-700">{value}</div>
+            <div className="text-[10px] text-slate-400">本周{label}</div>
+          </div>
+        ))}
+      </div>
+      {trends.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-xs font-bold text-slate-400">正确率走势（最近几次练习）</h4>
+          {trends.map(({ module, trend }) => {
+            const latest = trend[trend.length - 1];
+            const half = Math.floor(trend.length / 2);
+            const earlier = trend.slice(0, half), later = trend.slice(half);
+            const average = (xs: number[]) => xs.reduce((sum, x) => sum + x, 0) / xs.length;
+            const delta = earlier.length ? average(later) - average(earlier) : 0;
+            return (
+              <div key={module} className="flex items-center gap-3">
+                <span className="text-xs text-slate-600 w-8">{ACTIVITY_LABELS[module]}</span>
+                <div className="flex-1 flex items-end gap-0.5 h-6">
+                  {trend.map((acc, i) => <div key={i} className={`flex-1 rounded-sm ${acc >= 0.8 ? "bg-emerald-400" : acc >= 0.5 ? "bg-amber-300" : "bg-rose-300"}`} style={{ height: `${Math.max(10, acc * 100)}%` }}></div>)}
+                </div>
+                <span className="text-xs font-bold text-slate-700 w-10 text-right">{Math.round(latest * 100)}%</span>
+                <span className={`text-[10px] w-8 ${delta > 0.05 ? "text-emerald-600" : delta < -0.05 ? "text-rose-500" : "text-slate-400"}`}>{delta > 0.05 ? "↑" : delta < -0.05 ? "↓" : "→"}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
 const ActionCard = ({ title, desc, icon, color, onClick }: any) => (
   <button onClick={onClick} className={`${color} border p-4 rounded-xl flex flex-col items-start space-y-3 transition-all active:scale-95 hover:shadow-md text-left h-full`}>
     <div className="p-2 bg-white rounded-lg shadow-sm">{icon}</div>
@@ -484,81 +3200,761 @@ const ActionCard = ({ title, desc, icon, color, onClick }: any) => (
   </button>
 );
 
+// --- Daily Archive ---
+
+const DailyArchive = ({ words, onSaveWord, onOpen, onBack }: { words: Word[], onSaveWord: (text: string, translation: string, meta?: WordMeta) => void, onOpen: (config: DailyConfig) => void, onBack: () => void }) => {
+  const [configs, setConfigs] = useState<DailyConfig[] | null>(null);
+  const [month, setMonth] = useState(() => { const d = new Date(); d.setDate(1); return d; });
+  const [selected, setSelected] = useState<string | null>(null);
+
+  useEffect(() => {
+    storage.loadAll('dailyConfigs', normalizeDailyConfig)
+      .then(all => setConfigs(all.sort((a, b) => b.date.localeCompare(a.date))))
+      .catch(e => { console.error("Failed to load daily configs", e); setConfigs([]); });
+  }, []);
+
+  const byDate = new Map<string, DailyConfig>((configs || []).map(c => [c.date, c]));
+  const today = localDateKey();
+  const firstWeekday = month.getDay();
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const cells = [...Array(firstWeekday).fill(null), ...Array.from({ length: daysInMonth }, (_, i) => localDateKey(new Date(month.getFullYear(), month.getMonth(), i + 1)))];
+  const shiftMonth = (delta: number) => setMonth(m => new Date(m.getFullYear(), m.getMonth() + delta, 1));
+  const config = selected ? byDate.get(selected) : undefined;
+  const unsaved = (configs || []).filter(c => !hasWord(words, c.dailyWord.word));
+
+  return (
+    <div className="p-5 space-y-5">
+      <button onClick={onBack} className="text-sm text-slate-500 flex items-center gap-1"><ChevronLeft size={16} /> 返回</button>
+      <h2 className="text-xl font-bold text-slate-800">往日课程</h2>
+      {configs === null ? <div className="text-center py-10 text-slate-400"><RefreshCw className="animate-spin inline mr-2" size={16} />加载中...</div> : <>
+      <div className="bg-white rounded-xl border border-slate-200 p-4 shadow-sm">
+        <div className="flex items-center justify-between mb-3">
+          <button onClick={() => shiftMonth(-1)} className="p-1 text-slate-400 hover:text-emerald-600"><ChevronLeft size={18} /></button>
+          <span className="font-bold text-slate-700 text-sm">{month.getFullYear()} 年 {month.getMonth() + 1} 月</span>
+          <button onClick={() => shiftMonth(1)} className="p-1 text-slate-400 hover:text-emerald-600"><ChevronRight size={18} /></button>
+        </div>
+        <div className="grid grid-cols-7 gap-1 text-center text-[10px] text-slate-400 mb-1">{"日一二三四五六".split("").map(d => <span key={d}>{d}</span>)}</div>
+        <div className="grid grid-cols-7 gap-1">
+          {cells.map((date, i) => date === null ? <span key={`blank-${i}`} /> : (
+            <button key={date} disabled={!byDate.has(date)} onClick={() => setSelected(date)} className={`aspect-square rounded-lg text-xs flex flex-col items-center justify-center ${selected === date ? 'bg-emerald-600 text-white' : byDate.has(date) ? 'bg-emerald-50 text-emerald-700 font-bold' : 'text-slate-300'} ${date === today && selected !== date ? 'ring-1 ring-emerald-400' : ''}`}>
+              {Number(date.slice(8))}
+            </button>
+          ))}
+        </div>
+      </div>
+      {config ? (
+        <div className="bg-white rounded-xl border border-slate-200 p-4 shadow-sm space-y-3">
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <p className="text-[10px] font-bold text-slate-400">{config.date}</p>
+              <h3 className="text-2xl font-bold text-slate-800">{config.dailyWord.word}</h3>
+              <p className="text-sm text-slate-500">{config.dailyWord.phonetic} · {config.dailyWord.translation}</p>
+            </div>
+            {hasWord(words, config.dailyWord.word)
+              ? <span className="text-xs text-emerald-600 flex items-center gap-1 shrink-0"><CheckCircle size={14} /> 已在生词本</span>
+              : <button onClick={() => onSaveWord(config.dailyWord.word, config.dailyWord.translation, { context: config.dailyWord.example, phonetic: config.dailyWord.phonetic })} className="text-xs font-bold text-emerald-600 bg-emerald-50 px-3 py-1.5 rounded-full flex items-center gap-1 shrink-0"><Plus size={14} /> 加入生词本</button>}
+          </div>
+          <p className="text-sm text-slate-600 italic">"{config.dailyWord.example}"</p>
+          <div className="text-xs text-slate-500 space-y-1">
+            <p><span className="font-bold text-slate-400">口语：</span>{config.liveTopics.map(t => `${t.icon} ${t.name}`).join("、")}</p>
+            <p><span className="font-bold text-slate-400">听力：</span>{config.listeningTopics.join("、")}</p>
+            <p><span className="font-bold text-slate-400">翻译：</span>{config.translationTopics.join("、")}</p>
+            <p><span className="font-bold text-slate-400">阅读：</span>{config.readingArticles.map(a => a.title).join("、")}</p>
+          </div>
+          <button onClick={() => onOpen(config)} className="w-full bg-emerald-600 text-white py-3 rounded-xl font-bold text-sm">用这一天的话题练习</button>
+        </div>
+      ) : (
+        <p className="text-center text-sm text-slate-400">{configs.length ? "点选有记录的日期查看当天内容" : "还没有往日课程"}</p>
+      )}
+      {unsaved.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-xs font-bold text-slate-400">还没加入生词本的每日单词</h3>
+          <div className="flex flex-wrap gap-2">
+            {unsaved.map(c => (
+              <button key={c.date} onClick={() => onSaveWord(c.dailyWord.word, c.dailyWord.translation, { context: c.dailyWord.example, phonetic: c.dailyWord.phonetic })} className="bg-white border border-slate-200 px-3 py-1.5 rounded-full text-xs flex items-center gap-1 hover:border-emerald-400">
+                <Plus size={12} className="text-emerald-600" /> {c.dailyWord.word} <span className="text-slate-400">{c.date.slice(5)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      </>}
+    </div>
+  );
+};
+
+// --- Profile Settings ---
+
+const ProfileSettings = ({ profile, onChange, onBack }: { profile: LearnerProfile, onChange: (profile: LearnerProfile) => void, onBack: () => void }) => {
+  const [testing, setTesting] = useState(false);
+  const [answers, setAnswers] = useState<number[]>([]);
+  const [placed, setPlaced] = useState<CEFRLevel | null>(null);
+
+  const toggleGoal = (goal: LearnerGoal) => {
+    onChange({ ...profile, goals: profile.goals.includes(goal) ? profile.goals.filter(g => g !== goal) : [...profile.goals, goal] });
+  };
+
+  const answerPlacement = (choice: number) => {
+    const next = [...answers, choice];
+    if (next.length < PLACEMENT_TEST.length) { setAnswers(next); return; }
+    const level = placementLevel(next.filter((a, i) => a === PLACEMENT_TEST[i].answer).length);
+    onChange(withLevel(profile, level, 'placement'));
+    setPlaced(level); setTesting(false); setAnswers([]);
+  };
+
+  if (testing) {
+    const question = PLACEMENT_TEST[answers.length];
+    return (
+      <div className="p-6 space-y-6">
+        <div className="flex justify-between items-center">
+          <button onClick={() => { setTesting(false); setAnswers([]); }} className="text-sm text-slate-500 flex items-center gap-1"><ChevronLeft size={16} /> 退出测试</button>
+          <span className="text-xs font-bold text-slate-400">{answers.length + 1} / {PLACEMENT_TEST.length}</span>
+        </div>
+        <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden"><div className="h-full bg-emerald-500 transition-all" style={{ width: `${(answers.length / PLACEMENT_TEST.length) * 100}%` }}></div></div>
+        <p className="text-lg font-medium text-slate-800">{question.text}</p>
+        <div className="grid gap-3">
+          {question.options.map((opt, i) => <button key={opt} onClick={() => answerPlacement(i)} className="text-left p-4 rounded-xl border border-slate-200 bg-white hover:border-emerald-400">{opt}</button>)}
+        </div>
+        <p className="text-xs text-slate-400 text-center">不确定就选最像的一项，不要查词典。</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-8">
+      <button onClick={onBack} className="text-sm text-slate-500 flex items-center gap-1"><ChevronLeft size={16} /> 返回</button>
+      <section className="space-y-3">
+        <h2 className="text-xl font-bold text-slate-800">我的英语水平</h2>
+        {placed && <div className="p-3 rounded-xl bg-emerald-50 text-emerald-700 text-sm">定级完成：{placed} · {CEFR_LABELS[placed]}</div>}
+        <div className="grid grid-cols-3 gap-2">
+          {CEFR_LEVELS.map(level => (
+            <button key={level} onClick={() => onChange(withLevel(profile, level, 'manual'))} className={`p-3 rounded-xl border text-left transition-all ${profile.level === level ? 'bg-emerald-600 border-emerald-600 text-white' : 'bg-white border-slate-200 text-slate-600'}`}>
+              <div className="font-bold">{level}</div>
+              <div className="text-[10px] opacity-80">{CEFR_LABELS[level]}</div>
+            </button>
+          ))}
+        </div>
+        <button onClick={() => { setPlaced(null); setTesting(true); }} className="w-full py-3 rounded-xl border border-emerald-200 text-emerald-600 font-bold text-sm bg-emerald-50">做一次定级测试（{PLACEMENT_TEST.length} 题）</button>
+        <p className="text-xs text-slate-400">练习中最近 {ADJUST_WINDOW} 题正确率达到 {LEVEL_UP_ACCURACY * 100}% 会自动升一级，低于 {LEVEL_DOWN_ACCURACY * 100}% 会降一级。当前已累计 {profile.recentAnswers.length} 题。</p>
+      </section>
+      <section className="space-y-3">
+        <h2 className="text-sm font-bold text-slate-400">学习目标</h2>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(GOAL_LABELS) as LearnerGoal[]).map(goal => (
+            <button key={goal} onClick={() => toggleGoal(goal)} className={`px-4 py-2 rounded-full text-sm border ${profile.goals.includes(goal) ? 'bg-emerald-600 border-emerald-600 text-white' : 'bg-white border-slate-200 text-slate-600'}`}>{GOAL_LABELS[goal]}</button>
+          ))}
+        </div>
+      </section>
+      <section className="space-y-3">
+        <h2 className="text-sm font-bold text-slate-400">发音</h2>
+        <div className="flex gap-2">
+          <select value={profile.speech.voice} onChange={e => onChange({ ...profile, speech: { ...profile.speech, voice: e.target.value } })} className="flex-1 p-3 rounded-xl border border-slate-200 bg-white">
+            {TTS_VOICES.map(v => <option key={v.name} value={v.name}>{v.label}</option>)}
+          </select>
+          <SpeakButton text="Hello! This is how I will read words and stories to you." speech={profile.speech} className="px-4 rounded-xl border border-emerald-200 bg-emerald-50 text-emerald-600" />
+        </div>
+        <div className="flex gap-2">
+          {(Object.keys(ACCENT_LABELS) as SpeechAccent[]).map(accent => (
+            <button key={accent} onClick={() => onChange({ ...profile, speech: { ...profile.speech, accent } })} className={`px-4 py-2 rounded-full text-sm border ${profile.speech.accent === accent ? 'bg-emerald-600 border-emerald-600 text-white' : 'bg-white border-slate-200 text-slate-600'}`}>{ACCENT_LABELS[accent]}</button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-400">朗读过的单词和句子会保存在本机，再次播放无需联网。</p>
+      </section>
+      <section className="space-y-3">
+        <h2 className="text-sm font-bold text-slate-400">母语</h2>
+        <select value={profile.nativeLanguage} onChange={e => onChange({ ...profile, nativeLanguage: e.target.value })} className="w-full p-3 rounded-xl border border-slate-200 bg-white">
+          {NATIVE_LANGUAGES.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+        </select>
+      </section>
+    </div>
+  );
+};
+
 // --- Review Module ---
 
-const ReviewModule = ({ words = [], mistakes = [], onRemoveWord, onRemoveMistake }: any) => {
-  const [activeTab, setActiveTab] = useState<'words' | 'mistakes'>('words');
+const REVIEW_TABS = ['cards', 'words', 'mistakes'] as const;
+
+// The sub-tab comes from the route ("#/review/cards"); anything else shows the word list.
+const ReviewModule = ({ tab, onTab, words = [], mistakes = [], speech = DEFAULT_SPEECH, onRemoveWord, onRemoveMistake, onReviewWord, onRedrill, onReactivateMistake, onImport }: any) => {
+  const activeTab: typeof REVIEW_TABS[number] = REVIEW_TABS.includes(tab) ? tab : 'words';
+  const setActiveTab = (next: typeof REVIEW_TABS[number]) => onTab(next, true);
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [showMastered, setShowMastered] = useState(false);
+  const [redrillId, setRedrillId] = useState<number | null>(null);
+  const dueWords = words.filter((w: Word) => isDue(w));
+  const activeMistakes = mistakes.filter((m: Mistake) => !m.mastered);
+  const masteredMistakes = mistakes.filter((m: Mistake) => m.mastered);
+  const redrillMistake = mistakes.find((m: Mistake) => m.id === redrillId);
   return (
     <div className="h-full flex flex-col bg-slate-50">
       <header className="bg-white border-b border-slate-200 p-4 sticky top-0 z-10">
-        <h2 className="font-bold text-slate-800 text-xl mb-4">复习中心</h2>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="font-bold text-slate-800 text-xl">复习中心</h2>
+          <button onClick={() => setShowTransfer(!showTransfer)} className={`p-2 rounded-full transition-colors ${showTransfer ? 'bg-emerald-50 text-emerald-600' : 'text-slate-400 hover:text-slate-600'}`}><Download size={18} /></button>
+        </div>
+        {showTransfer && <DataTransferPanel words={words} mistakes={mistakes} onImport={onImport} />}
         <div className="flex bg-slate-100 p-1 rounded-lg">
+          <button onClick={() => setActiveTab('cards')} className={`flex-1 py-2 text-sm font-bold rounded-md transition-all flex items-center justify-center gap-2 ${activeTab === 'cards' ? 'bg-white shadow-sm text-emerald-600' : 'text-slate-400'}`}>
+            <Layers size={16} /> 卡片 ({dueWords.length})
+          </button>
           <button onClick={() => setActiveTab('words')} className={`flex-1 py-2 text-sm font-bold rounded-md transition-all flex items-center justify-center gap-2 ${activeTab === 'words' ? 'bg-white shadow-sm text-emerald-600' : 'text-slate-400'}`}>
             <Bookmark size={16} /> 生词本 ({words.length})
           </button>
           <button onClick={() => setActiveTab('mistakes')} className={`flex-1 py-2 text-sm font-bold rounded-md transition-all flex items-center justify-center gap-2 ${activeTab === 'mistakes' ? 'bg-white shadow-sm text-rose-600' : 'text-slate-400'}`}>
-            <AlertCircle size={16} /> 错题本 ({mistakes.length})
+            <AlertCircle size={16} /> 错题本 ({activeMistakes.length})
           </button>
         </div>
       </header>
       <div className="flex-1 overflow-y-auto p-4">
+        {activeTab === 'cards' && <FlashcardReview words={words} speech={speech} onGrade={onReviewWord} />}
         {activeTab === 'words' && (
           <div className="space-y-3">
-            {words.length === 0 && <EmptyState text="暂无生词，阅读时点击单词即可添加" />}
+            {words.length === 0 && <EmptyState text="暂无生词，阅读时点击单词或划选短语即可添加" />}
             {words.map((w: Word) => (
               <div key={w.text} className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm flex justify-between items-center group">
-                <div>
-                  <h4 className="font-bold text-lg text-slate-800">{w.text}</h4>
+                <div className="min-w-0">
+                  <div className="flex items-baseline gap-2">
+                    <h4 className="font-bold text-lg text-slate-800">{w.text}</h4>
+                    {w.phonetic && <span className="text-xs text-slate-400 font-mono">{w.phonetic}</span>}
+                    {w.kind === 'phrase' && <span className="text-[10px] font-bold text-indigo-600 bg-indigo-50 px-1.5 py-0.5 rounded">短语</span>}
+                    {w.source && <span className="text-[10px] font-bold text-emerald-600 bg-emerald-50 px-1.5 py-0.5 rounded">{WORD_SOURCE_LABELS[w.source]}</span>}
+                  </div>
                   <p className="text-sm text-slate-500">{w.translation}</p>
+                  {w.context && <p className="text-xs text-slate-500 italic mt-1 border-l-2 border-emerald-200 pl-2"><HighlightedContext text={w.context} word={w.text} /></p>}
+                  <p className="text-[10px] text-slate-400 mt-1">{isDue(w) ? "今日待复习" : `下次复习: ${new Date(w.due).toLocaleDateString()}`}</p>
                 </div>
                 <div className="flex gap-2">
-                   <button onClick={() => { const u = new SpeechSynthesisUtterance(w.text); window.speechSynthesis.speak(u); }} className="p-2 text-slate-400 hover:text-emerald-500 hover:bg-emerald-50 rounded-full"><Volume2 size={18} /></button>
+                   <SpeakButton text={w.text} speech={speech} className="p-2 text-slate-400 hover:text-emerald-500 hover:bg-emerald-50 rounded-full" />
                    <button onClick={() => onRemoveWord(w.text)} className="p-2 text-slate-400 hover:text-rose-500 hover:bg-rose-50 rounded-full"><Trash2 size={18} /></button>
                 </div>
               </div>
             ))}
           </div>
         )}
-        {activeTab === 'mistakes' && (
+        {activeTab === 'mistakes' && redrillMistake && (
+          <MistakeRedrill mistake={redrillMistake} onResult={(correct: boolean) => onRedrill(redrillMistake.id, correct)} onExit={() => setRedrillId(null)} />
+        )}
+        {activeTab === 'mistakes' && !redrillMistake && (
           <div className="space-y-4">
-             {mistakes.length === 0 && <EmptyState text="太棒了，目前没有错题！" />}
-             {mistakes.map((m: Mistake) => (
+             <div className="flex gap-2 text-xs font-bold">
+               <button onClick={() => setShowMastered(false)} className={`px-3 py-1.5 rounded-full border ${!showMastered ? 'bg-rose-600 text-white border-rose-600' : 'bg-white text-slate-500'}`}>待攻克 {activeMistakes.length}</button>
+               <button onClick={() => setShowMastered(true)} className={`px-3 py-1.5 rounded-full border ${showMastered ? 'bg-emerald-600 text-white border-emerald-600' : 'bg-white text-slate-500'}`}>已掌握 {masteredMistakes.length}</button>
+             </div>
+             {!showMastered && activeMistakes.length === 0 && <EmptyState text="太棒了，目前没有错题！" />}
+             {showMastered && masteredMistakes.length === 0 && <EmptyState text={`连续答对 ${MASTERY_STREAK} 次变式题即可掌握错题`} />}
+             {(showMastered ? masteredMistakes : activeMistakes).map((m: Mistake) => (
                <div key={m.id} className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm relative">
                  <button onClick={() => onRemoveMistake(m.id)} className="absolute top-3 right-3 text-slate-300 hover:text-rose-500"><X size={16} /></button>
-                 <span className="text-[10px] font-bold uppercase tracking-wider bg-rose-50 text-rose-600 px-2 py-1 rounded-md mb-2 inline-block">{m.type === 'translation' ? '翻译' : '听力'}</span>
+                 <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-md mb-2 inline-block ${MISTAKE_BADGES[m.type].className}`}>{MISTAKE_BADGES[m.type].label}</span>
                  <p className="font-medium text-slate-800 mb-2">{m.question}</p>
                  <div className="text-sm space-y-1 mb-3">
                     <p className="text-rose-600 line-through decoration-rose-300 decoration-2">{m.userAnswer}</p>
                     <p className="text-emerald-600 font-medium">{m.correctAnswer}</p>
                  </div>
                  <div className="bg-slate-50 p-3 rounded-lg text-xs text-slate-600 leading-relaxed"><span className="font-bold text-slate-700">解析：</span>{m.explanation}</div>
+                 <div className="flex justify-between items-center mt-3">
+                   <span className="text-[10px] text-slate-400">连续答对 {m.streak}/{MASTERY_STREAK}</span>
+                   {m.mastered
+                     ? <button onClick={() => onReactivateMistake(m.id)} className="text-xs font-bold text-slate-500 flex items-center gap-1"><RefreshCw size={12} /> 重新练习</button>
+                     : <button onClick={() => setRedrillId(m.id)} className="text-xs font-bold text-rose-600 bg-rose-50 px-3 py-1.5 rounded-full flex items-center gap-1"><RefreshCw size={12} /> 重做</button>}
+                 </div>
                </div>
              ))}
           </div>
-        )}
+        )}
+      </div>
+    </div>
+  );
+};
+
+const DataTransferPanel = ({ words, mistakes, onImport }: { words: Word[], mistakes: Mistake[], onImport: (bundle: BackupBundle, invalid: number) => Promise<ImportSummary> }) => {
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const stamp = new Date().toISOString().split('T')[0];
+
+  const exportBackup = async () => {
+    const dailyConfigs = await storage.loadAll('dailyConfigs', normalizeDailyConfig).catch(() => []);
+    downloadText(`lingoflow-backup-${stamp}.json`, exportBackupJSON({ words, mistakes, dailyConfigs }), 'application/json');
+  };
+
+  const handleFile = async (file: File) => {
+    setStatus(null); setError(null);
+    try {
+      const { bundle, invalid } = parseImportFile(file.name, await file.text());
+      const r = await onImport(bundle, invalid);
+      setStatus(`导入完成：新增单词 ${r.addedWords}（重复 ${r.skippedWords}），新增错题 ${r.addedMistakes}（重复 ${r.skippedMistakes}），每日配置 ${r.addedConfigs}${r.invalid ? `，无效记录 ${r.invalid}` : ""}`);
+    } catch (e) {
+      console.error("Import failed", e);
+      setError("无法识别该文件，请选择 LingoFlow 备份 JSON、CSV 或 Anki TSV 文件。");
+    } finally {
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="mb-4 space-y-3">
+      <div className="grid grid-cols-2 gap-2 text-xs font-bold">
+        <button onClick={() => downloadText(`lingoflow-anki-${stamp}.txt`, exportAnkiTSV(words), 'text/plain')} className="bg-slate-50 border border-slate-200 rounded-lg py-2 flex items-center justify-center gap-1"><Download size={14} /> Anki 卡片</button>
+        <button onClick={() => downloadText(`lingoflow-words-${stamp}.csv`, exportWordsCSV(words), 'text/csv')} className="bg-slate-50 border border-slate-200 rounded-lg py-2 flex items-center justify-center gap-1"><Download size={14} /> 生词 CSV</button>
+        <button onClick={() => downloadText(`lingoflow-mistakes-${stamp}.csv`, exportMistakesCSV(mistakes), 'text/csv')} className="bg-slate-50 border border-slate-200 rounded-lg py-2 flex items-center justify-center gap-1"><Download size={14} /> 错题 CSV</button>
+        <button onClick={exportBackup} className="bg-slate-50 border border-slate-200 rounded-lg py-2 flex items-center justify-center gap-1"><Download size={14} /> 完整备份</button>
+      </div>
+      <button onClick={() => fileRef.current?.click()} className="w-full bg-emerald-600 text-white rounded-lg py-2 text-xs font-bold flex items-center justify-center gap-1"><Upload size={14} /> 导入备份 / CSV / Anki</button>
+      <input ref={fileRef} type="file" accept=".json,.csv,.tsv,.txt" className="hidden" onChange={e => { const f = e.target.files?.[0]; if (f) handleFile(f); }} />
+      {status && <p className="text-xs text-emerald-700 bg-emerald-50 rounded-lg p-2">{status}</p>}
+      <ErrorBanner message={error} />
+    </div>
+  );
+};
+
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; color: string }[] = [
+  { grade: 'again', label: '重来', color: 'bg-rose-50 text-rose-600 border-rose-100' },
+  { grade: 'hard', label: '困难', color: 'bg-amber-50 text-amber-600 border-amber-100' },
+  { grade: 'good', label: '良好', color: 'bg-emerald-50 text-emerald-600 border-emerald-100' },
+  { grade: 'easy', label: '简单', color: 'bg-blue-50 text-blue-600 border-blue-100' },
+];
+
+const FlashcardReview = ({ words, speech, onGrade }: { words: Word[], speech: SpeechSettings, onGrade: (text: string, grade: ReviewGrade) => void }) => {
+  // The queue is fixed when the session starts so re-graded cards don't reshuffle mid-review.
+  const [queue, setQueue] = useState<string[]>(() => words.filter(w => isDue(w)).map(w => w.text));
+  const [revealed, setRevealed] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+
+  const current = words.find(w => w.text === queue[0]);
+
+  if (!current) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64 text-slate-400 px-10 text-center gap-2">
+        <CheckCircle size={48} className="mb-2 text-emerald-400 opacity-60" />
+        <p>{reviewed > 0 ? `本轮复习完成，共 ${reviewed} 张卡片` : "今天没有需要复习的单词"}</p>
+      </div>
+    );
+  }
+
+  const grade = (g: ReviewGrade) => {
+    onGrade(current.text, g);
+    setReviewed(n => n + 1);
+    setRevealed(false);
+    // Forgotten cards come back at the end of this session.
+    setQueue(([head, ...rest]) => g === 'again' ? [...rest, head] : rest);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs font-bold text-slate-400 text-center">剩余 {queue.length} 张</p>
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-8 min-h-[240px] flex flex-col items-center justify-center gap-4 text-center">
+        <div className="flex items-center gap-2">
+          <h3 className="text-3xl font-bold text-slate-800">{current.text}</h3>
+          <SpeakButton text={current.text} speech={speech} className="p-2 text-slate-400 hover:text-emerald-500 rounded-full" />
+        </div>
+        {revealed ? (
+          <p className="text-lg text-slate-600 animate-in fade-in">{current.translation}</p>
+        ) : (
+          <button onClick={() => setRevealed(true)} className="text-sm text-emerald-600 font-bold flex items-center gap-1"><Eye size={16} /> 显示释义</button>
+        )}
+      </div>
+      {revealed && (
+        <div className="grid grid-cols-4 gap-2">
+          {GRADE_BUTTONS.map(b => (
+            <button key={b.grade} onClick={() => grade(b.grade)} className={`${b.color} border rounded-xl py-3 flex flex-col items-center gap-1 active:scale-95 transition-all`}>
+              <span className="text-sm font-bold">{b.label}</span>
+              <span className="text-[10px] opacity-70">{formatInterval(current, b.grade)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const MistakeRedrill = ({ mistake, onResult, onExit }: { mistake: Mistake, onResult: (correct: boolean) => void, onExit: () => void }) => {
+  const [exercise, setExercise] = useState<Exercise | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [userAnswer, setUserAnswer] = useState<any>("");
+  const [feedback, setFeedback] = useState<JudgedAnswer | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const generateVariant = useCallback(async () => {
+    setLoading(true); setExercise(null); setFeedback(null); setUserAnswer(""); setError(null);
+    try {
+      const prompt = `A learner got this ${mistake.type} exercise wrong.
+      Question: "${mistake.question}"
+      Correct answer: "${mistake.correctAnswer}"
+      Explanation: "${mistake.explanation}"
+      Write ONE new exercise that drills the same point with different wording and context. Do not reuse the original sentence.
+      Use type "single" or "blank" for word-level points and "full" for sentence-level points. Return a JSON object ${EXERCISE_FORMAT}`;
+      setExercise(await generateValidated(prompt, 'exerciseVariant', ExerciseSchema));
+    } catch (e) { setError(describeError(e)); } finally { setLoading(false); }
+  }, [mistake.id]);
+
+  useEffect(() => { generateVariant(); }, [generateVariant]);
+
+  const checkAnswer = async () => {
+    if (!exercise) return;
+    setLoading(true); setError(null);
+    try {
+      const judged = await judgeExercise(exercise, userAnswer);
+      setFeedback(judged);
+      onResult(judged.correct);
+    } catch (e) { setError(describeError(e)); } finally { setLoading(false); }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <button onClick={onExit} className="text-sm text-slate-500 flex items-center gap-1">← 返回错题本</button>
+        <span className="text-xs font-bold text-rose-600">连续答对 {mistake.streak}/{MASTERY_STREAK}</span>
+      </div>
+      <div className="bg-slate-100 p-3 rounded-lg text-xs text-slate-500"><span className="font-bold">原题：</span>{mistake.question}</div>
+      {loading && !exercise && <div className="text-center py-10 text-slate-400"><RefreshCw className="animate-spin inline mr-2" size={16} />正在生成变式题...</div>}
+      <ErrorBanner message={error} onRetry={exercise ? undefined : generateVariant} />
+      {exercise && (
+        <>
+          <ExerciseInput exercise={exercise} userAnswer={userAnswer} setUserAnswer={setUserAnswer} locked={!!feedback} />
+          {feedback && <ExerciseFeedback feedback={feedback} />}
+          {!feedback
+            ? <button onClick={checkAnswer} disabled={!userAnswer || loading} className="w-full bg-slate-800 text-white py-4 rounded-xl shadow-lg">{loading ? "检查中..." : "核对答案"}</button>
+            : mistake.mastered
+              ? <button onClick={onExit} className="w-full bg-emerald-600 text-white py-4 rounded-xl shadow-lg">已掌握，返回错题本</button>
+              : <button onClick={generateVariant} className="w-full bg-rose-600 text-white py-4 rounded-xl shadow-lg">再来一题</button>}
+        </>
+      )}
+    </div>
+  );
+};
+
+const EmptyState = ({text}: {text: string}) => (
+  <div className="flex flex-col items-center justify-center h-64 text-slate-400 px-10 text-center"><Bookmark size={48} className="mb-4 opacity-20" /><p>{text}</p></div>
+);
+
+// --- Live Tutor Component ---
+
+const TranscriptBubble = ({ entry, InteractiveText, onPlay }: any) => (
+  <div className={`flex flex-col ${entry.role === 'user' ? 'items-end' : 'items-start'} animate-in slide-in-from-bottom-2`}>
+    <div className={`max-w-[85%] p-4 rounded-2xl text-sm ${entry.role === 'user' ? 'bg-emerald-600' : 'bg-slate-800 border border-slate-700'}`}>
+      <InteractiveText text={entry.text} isDark={true} />
+      {entry.interrupted && <p className="mt-2 text-[10px] text-amber-300/80">已打断 · 后半句未播放</p>}
+      {entry.translation && <p className="mt-2 text-[11px] opacity-60 border-t border-white/10 pt-2">{entry.translation}</p>}
+    </div>
+    {onPlay && entry.audio && (
+      <button onClick={() => onPlay(entry)} className="mt-1 text-[10px] text-slate-400 hover:text-emerald-400 flex items-center gap-1">
+        <Play size={10} /> 回放 {formatDuration((entry.audio.end - entry.audio.start) * 1000)}
+      </button>
+    )}
+  </div>
+);
+
+function formatDuration(ms: number) {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return minutes > 0 ? `${minutes}分${seconds}秒` : `${seconds}秒`;
+}
+
+function sessionMatches(session: LiveSessionRecord, keyword: string) {
+  const q = keyword.trim().toLowerCase();
+  if (!q) return true;
+  return session.topic.toLowerCase().includes(q) || session.transcript.some(t => t.text.toLowerCase().includes(q) || (t.translation || "").toLowerCase().includes(q));
+}
+
+const SpeakingReportView = ({ sessionId, onMistake, onClose }: { sessionId: string, onMistake: (m: NewMistake) => void, onClose: () => void }) => {
+  const [session, setSession] = useState<LiveSessionRecord | null>(null);
+  const [report, setReport] = useState<SpeakingReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Updated synchronously so a second click before the re-render can't add the same error twice
+  const addedRef = useRef<Set<number>>(new Set());
+
+  const generate = useCallback(async () => {
+    setLoading(true); setError(null);
+    try {
+      const record = await storage.get<LiveSessionRecord>('sessions', sessionId);
+      setSession(record || null);
+      if (!record) return;
+      if (record.report) { addedRef.current = new Set(record.report.addedErrors || []); setReport(record.report); return; }
+      const learner = record.transcript.filter(t => t.role === 'user').map((t, i) => `${i + 1}. ${t.text}`).join("\n");
+      const tutor = record.transcript.filter(t => t.role === 'model').map(t => `- ${t.text}`).join("\n");
+      if (!learner) return;
+      const prompt = `You are reviewing an English learner's speaking practice on the topic "${record.topic}".
+      The learner's turns come from speech recognition, so ignore punctuation and capitalisation.
+      Learner turns:
+      ${learner}
+      Tutor turns (for reference only):
+      ${tutor}
+      List grammar and word-choice errors from the LEARNER turns only, each with the learner's full sentence as "context", the wrong fragment as "original" and your fix as "corrected".
+      Pick up to 5 useful phrases the tutor used. Rate fluency from 1 to 10.
+      Return JSON { "errors": [ { "kind": "grammar"|"word-choice", "context": "...", "original": "...", "corrected": "...", "explanation": "Brief CN explanation" } ], "usefulPhrases": [ { "phrase": "...", "meaning": "CN meaning" } ], "fluency": { "score": 7, "summary": "CN summary of fluency, range and coherence" } }`;
+      const generated = await generateValidated(prompt, 'speakingReport', SpeakingReportSchema);
+      addedRef.current = new Set();
+      setReport(generated);
+      await storage.update<LiveSessionRecord>('sessions', sessionId, rec => rec && { ...rec, report: generated });
+    } catch (e) { setError(describeError(e)); } finally { setLoading(false); }
+  }, [sessionId]);
+
+  useEffect(() => { generate(); }, [generate]);
+
+  const addErrors = (indices: number[]) => {
+    if (!report || !session) return;
+    const fresh = indices.filter(i => !addedRef.current.has(i));
+    if (!fresh.length) return;
+    fresh.forEach(i => {
+      addedRef.current.add(i);
+      const err = report.errors[i];
+      onMistake({ question: err.context || err.original, userAnswer: err.original, correctAnswer: err.corrected, explanation: err.explanation, type: 'speaking' });
+    });
+    const addedErrors = [...addedRef.current];
+    setReport(prev => prev && { ...prev, addedErrors });
+    storage.update<LiveSessionRecord>('sessions', sessionId, rec => rec?.report ? { ...rec, report: { ...rec.report, addedErrors } } : rec).catch(e => console.error("Failed to save report", e));
+  };
+
+  const pending = report ? report.errors.map((_, i) => i).filter(i => !(report.addedErrors || []).includes(i)) : [];
+
+  return (
+    <div className="h-full flex flex-col bg-slate-50">
+      <header className="bg-white border-b border-slate-200 p-4 sticky top-0 z-10 flex items-center gap-2">
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600"><ChevronLeft size={20} /></button>
+        <div>
+          <h2 className="font-bold text-slate-800">口语报告</h2>
+          {session && <p className="text-[10px] text-slate-400">{session.topic} · {new Date(session.startedAt).toLocaleString()}</p>}
+        </div>
+      </header>
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {loading && <div className="text-center py-10 text-slate-400"><RefreshCw className="animate-spin inline mr-2" size={16} />正在分析你的口语表现...</div>}
+        <ErrorBanner message={error} onRetry={generate} />
+        {!loading && !error && !report && <EmptyState text="这次通话没有识别到你的发言，无法生成报告" />}
+        {report && (
+          <>
+            <div className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm flex gap-4 items-center">
+              <div className="w-14 h-14 rounded-full bg-emerald-50 text-emerald-600 flex items-center justify-center text-2xl font-bold shrink-0">{report.fluency.score}</div>
+              <div>
+                <h3 className="font-bold text-slate-800 text-sm mb-1">流利度</h3>
+                <p className="text-xs text-slate-600 leading-relaxed">{report.fluency.summary}</p>
+              </div>
+            </div>
+            <div className="space-y-3">
+              <div className="flex justify-between items-center">
+                <h3 className="font-bold text-slate-800 text-sm">语法与用词 ({report.errors.length})</h3>
+                {pending.length > 0 && <button onClick={() => addErrors(pending)} className="text-xs font-bold text-rose-600 flex items-center gap-1"><Plus size={14} /> 全部加入错题本</button>}
+              </div>
+              {report.errors.length === 0 && <p className="text-xs text-slate-400">没有发现明显错误，继续保持！</p>}
+              {report.errors.map((err, i) => {
+                const added = (report.addedErrors || []).includes(i);
+                return (
+                  <div key={i} className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm space-y-2">
+                    <div className="flex justify-between items-start gap-2">
+                      <span className="text-[10px] font-bold bg-amber-50 text-amber-700 px-2 py-0.5 rounded">{err.kind === 'grammar' ? '语法' : '用词'}</span>
+                      <button onClick={() => addErrors([i])} disabled={added} className={`text-xs font-bold flex items-center gap-1 ${added ? 'text-slate-300' : 'text-rose-600'}`}>{added ? <><CheckCircle size={12} /> 已加入</> : <><Plus size={12} /> 错题本</>}</button>
+                    </div>
+                    {err.context && <p className="text-xs text-slate-400 italic">"{err.context}"</p>}
+                    <p className="text-sm text-rose-600 line-through decoration-rose-300">{err.original}</p>
+                    <p className="text-sm text-emerald-600 font-medium">{err.corrected}</p>
+                    <p className="text-xs text-slate-600 bg-slate-50 p-2 rounded-lg">{err.explanation}</p>
+                  </div>
+                );
+              })}
+            </div>
+            {report.usefulPhrases.length > 0 && (
+              <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm space-y-2">
+                <h3 className="font-bold text-slate-800 text-sm">地道表达</h3>
+                {report.usefulPhrases.map((p, i) => (
+                  <div key={i} className="text-sm"><span className="font-medium text-slate-800">{p.phrase}</span><span className="text-xs text-slate-500 ml-2">{p.meaning}</span></div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const LiveHistory = ({ onSaveWord, onMistake, onBack }: { onSaveWord: (text: string, translation: string, meta?: WordMeta) => void, onMistake: (m: NewMistake) => void, onBack: () => void }) => {
+  const [sessions, setSessions] = useState<LiveSessionRecord[] | null>(null);
+  const [reportId, setReportId] = useState<string | null>(null);
+  const [keyword, setKeyword] = useState("");
+  const [openId, setOpenId] = useState<string | null>(null);
+  const { tooltip, setTooltip, InteractiveText } = useWordLookup(onSaveWord, 'live');
+  const stopPlaybackRef = useRef<(() => void) | null>(null);
+  const playbackContextRef = useRef<AudioContext | null>(null);
+  const audioCacheRef = useRef<Map<string, Blob>>(new Map());
+
+  useEffect(() => () => {
+    stopPlaybackRef.current?.();
+    playbackContextRef.current?.close().catch(() => {});
+  }, []);
+
+  const loadAudio = async (key: string) => {
+    if (!audioCacheRef.current.has(key)) {
+      const stored = await storage.get<StoredAudio>('audio', key);
+      if (!stored) return null;
+      audioCacheRef.current.set(key, stored.blob);
+    }
+    return audioCacheRef.current.get(key)!;
+  };
+
+  const playEntry = async (session: LiveSessionRecord, entry: TranscriptEntry) => {
+    if (!session.audioKey || !entry.audio) return;
+    stopPlaybackRef.current?.();
+    try {
+      const blob = await loadAudio(session.audioKey);
+      if (!blob) return;
+      const ctx = playbackContextRef.current ??= new (window.AudioContext || (window as any).webkitAudioContext)();
+      if (ctx.state === 'suspended') await ctx.resume();
+      stopPlaybackRef.current = await playRecordingSegment(ctx, blob, entry.audio.start, entry.audio.end);
+    } catch (e) { console.error("Failed to play recording", e); }
+  };
+
+  const downloadRecording = async (session: LiveSessionRecord) => {
+    if (!session.audioKey) return;
+    const blob = await loadAudio(session.audioKey);
+    if (!blob) return;
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url; a.download = `lingoflow-${session.id}.wav`;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  useEffect(() => {
+    storage.loadAll('sessions', normalizeSessionRecord)
+      .then(list => setSessions(list.sort((a, b) => b.startedAt - a.startedAt)))
+      .catch(e => { console.error("Failed to load sessions", e); setSessions([]); });
+  }, []);
+
+  const removeSession = (session: LiveSessionRecord) => {
+    setSessions(prev => (prev || []).filter(s => s.id !== session.id));
+    storage.delete('sessions', session.id).catch(e => console.error("Failed to delete session", e));
+    if (session.audioKey) storage.delete('audio', session.audioKey).catch(e => console.error("Failed to delete recording", e));
+  };
+
+  const opened = sessions?.find(s => s.id === openId);
+
+  if (reportId) {
+    return <SpeakingReportView sessionId={reportId} onMistake={onMistake} onClose={() => setReportId(null)} />;
+  }
+
+  if (opened) {
+    const q = keyword.trim().toLowerCase();
+    return (
+      <div className="h-full flex flex-col bg-slate-900 text-white">
+        <div className="p-4 border-b border-slate-800 flex items-center gap-3 shrink-0">
+          <button onClick={() => { stopPlaybackRef.current?.(); setOpenId(null); }} className="text-slate-400 hover:text-white"><ChevronLeft size={20} /></button>
+          <div className="flex-1">
+            <p className="font-bold text-sm">{opened.topic}</p>
+            <p className="text-[10px] text-slate-400">{new Date(opened.startedAt).toLocaleString()} · {formatDuration(opened.endedAt - opened.startedAt)}</p>
+          </div>
+          {opened.transcript.some(t => t.role === 'user') && <button onClick={() => { stopPlaybackRef.current?.(); setReportId(opened.id); }} className="text-xs font-bold text-emerald-400 border border-emerald-400/40 px-2 py-1 rounded-full">报告</button>}
+          {opened.audioKey && <button onClick={() => downloadRecording(opened)} className="text-slate-400 hover:text-white p-2"><Download size={16} /></button>}
+        </div>
+        <Tooltip tooltip={tooltip} onSave={onSaveWord} onClose={() => setTooltip(null)} />
+        <div className="flex-1 overflow-y-auto p-4 space-y-6 scrollbar-hide">
+          {opened.transcript.map(t => (
+            <div key={t.id} className={q && t.text.toLowerCase().includes(q) ? "ring-1 ring-amber-400/60 rounded-2xl" : ""}>
+              <TranscriptBubble entry={t} InteractiveText={InteractiveText} onPlay={opened.audioKey ? (e: TranscriptEntry) => playEntry(opened, e) : undefined} />
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const filtered = (sessions || []).filter(s => sessionMatches(s, keyword));
+
+  return (
+    <div className="h-full flex flex-col bg-slate-50">
+      <header className="bg-white border-b border-slate-200 p-4 sticky top-0 z-10 space-y-3">
+        <div className="flex items-center gap-2">
+          <button onClick={onBack} className="text-slate-400 hover:text-slate-600"><ChevronLeft size={20} /></button>
+          <h2 className="font-bold text-slate-800">历史对话</h2>
+        </div>
+        <div className="flex items-center gap-2 bg-slate-100 rounded-lg px-3 py-2">
+          <Search size={16} className="text-slate-400" />
+          <input value={keyword} onChange={e => setKeyword(e.target.value)} placeholder="搜索对话内容..." className="bg-transparent outline-none text-sm flex-1" />
+        </div>
+      </header>
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {sessions === null && <div className="text-center py-10 text-slate-400"><RefreshCw className="animate-spin inline mr-2" size={16} />加载中...</div>}
+        {sessions !== null && filtered.length === 0 && <EmptyState text={keyword ? "没有找到匹配的对话" : "还没有保存的对话，完成一次口语练习后会自动保存"} />}
+        {filtered.map(s => {
+          const q = keyword.trim().toLowerCase();
+          const hit = q ? s.transcript.find(t => t.text.toLowerCase().includes(q) || (t.translation || "").toLowerCase().includes(q)) : s.transcript[0];
+          return (
+            <div key={s.id} className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm flex justify-between items-start gap-3">
+              <button onClick={() => setOpenId(s.id)} className="text-left flex-1 min-w-0">
+                <h4 className="font-bold text-slate-800 text-sm">{s.topic}</h4>
+                <p className="text-[10px] text-slate-400 mb-1 flex items-center gap-1">{new Date(s.startedAt).toLocaleString()} · {s.transcript.length} 条 · {formatDuration(s.endedAt - s.startedAt)}{s.audioKey && <Volume2 size={10} />}</p>
+                {hit && <p className="text-xs text-slate-500 truncate">{hit.text}</p>}
+              </button>
+              <button onClick={() => removeSession(s)} className="p-2 text-slate-300 hover:text-rose-500"><Trash2 size={16} /></button>
+            </div>
+          );
+        })}
       </div>
     </div>
   );
 };
 
-const EmptyState = ({text}: {text: string}) => (
-  <div className="flex flex-col items-center justify-center h-64 text-slate-400 px-10 text-center"><Bookmark size={48} className="mb-4 opacity-20" /><p>{text}</p></div>
-);
+// `ended` doubles as the idle state between calls.
+type LiveCallState = 'connecting' | 'live' | 'reconnecting' | 'ended' | 'failed';
 
-// --- Live Tutor Component ---
+const MAX_RECONNECT_ATTEMPTS = 5;
+
+// Exponential backoff with jitter: ~1s, 2s, 4s, 8s, then capped at 15s.
+function reconnectDelay(attempt: number) {
+  return Math.min(15000, 1000 * 2 ** (attempt - 1)) * (0.75 + Math.random() * 0.5);
+}
+
+// Re-renders only when the level moves to another tenth.
+const LevelMeter = ({ feed, active }: { feed: LevelFeed, active: boolean }) => {
+  const [level, setLevel] = useState(0);
+  useEffect(() => feed.subscribe(next => setLevel(Math.round(next * 10) / 10)), [feed]);
+  return (
+    <div className="flex items-end gap-1.5 h-10">{[...Array(5)].map((_, i) => <div key={i} className={`w-1.5 rounded-full transition-all duration-100 ${active ? 'bg-emerald-400' : 'bg-slate-500'}`} style={{ height: `${Math.max(10, level * 100 * (1 - Math.abs(i - 2) * 0.25))}%` }}></div>)}</div>
+  );
+};
 
-const LiveTutor = ({ onSaveWord, topics = [] }: { onSaveWord: (text: string, translation: string) => void, topics: { name: string; icon: string }[] }) => {
-  const [connected, setConnected] = useState(false);
-  const [connecting, setConnecting] = useState(false);
+const LiveTutor = ({ onSaveWord, onMistake, onActivity, profile, topics = [] }: { onSaveWord: (text: string, translation: string, meta?: WordMeta) => void, onMistake: (m: NewMistake) => void, onActivity: (event: NewActivity) => void, profile: LearnerProfile, topics: { name: string; icon: string }[] }) => {
+  const [callState, setCallState] = useState<LiveCallState>('ended');
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
   const [topic, setTopic] = useState<string | null>(null);
   const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
   const [liveUserText, setLiveUserText] = useState("");
   const [liveModelText, setLiveModelText] = useState("");
-  const { tooltip, setTooltip, InteractiveText } = useWordLookup(onSaveWord);
+  const [showHistory, setShowHistory] = useState(false);
+  const [recordAudio, setRecordAudio] = useState(false);
+  const [reportSessionId, setReportSessionId] = useState<string | null>(null);
+  const [micMode, setMicMode] = useState<'handsfree' | 'ptt'>('handsfree');
+  const [levelFeed] = useState(createLevelFeed);
+  const [userSpeaking, setUserSpeaking] = useState(false);
+  const { tooltip, setTooltip, InteractiveText } = useWordLookup(onSaveWord, 'live');
   
   const sessionRef = useRef<any>(null);
+  // Bumped for every connection attempt so callbacks from a superseded session are ignored.
+  const connectionIdRef = useRef(0);
+  const resumptionHandleRef = useRef<string | null>(null);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const retryRef = useRef<(() => void) | null>(null);
+  // When the call first went live; cleanup() is memoised, so it reads the logger through a ref.
+  const liveSinceRef = useRef<number | null>(null);
+  const onActivityRef = useRef(onActivity);
+  onActivityRef.current = onActivity;
+  const recordIdRef = useRef<string | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const userTurnsRef = useRef(0);
+  // Recording timeline bookkeeping, all in seconds since the session started
+  const outputStartRef = useRef(0);
+  const lastTurnEndRef = useRef(0);
+  const turnAudioRef = useRef<{ start: number; end: number } | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const inputContextRef = useRef<AudioContext | null>(null);
+  const micRef = useRef<MicCapture | null>(null);
+  const sendRef = useRef<((input: Parameters<LiveSessionHandle['sendRealtimeInput']>[0]) => void) | null>(null);
+  const pttRef = useRef(false);
+  // Barge-in bookkeeping: the committed tutor turn still audible, whether the server is still
+  // generating, and whether leftover audio from a turn the learner talked over should be dropped.
+  const playingEntryRef = useRef<string | null>(null);
+  const generatingRef = useRef(false);
+  const dropStaleAudioRef = useRef(false);
+  const bargeInRef = useRef<(() => void) | null>(null);
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   const transcriptBoxRef = useRef<HTMLDivElement>(null);
@@ -571,105 +3967,316 @@ const LiveTutor = ({ onSaveWord, topics = [] }: { onSaveWord: (text: string, tra
 
   const translateText = async (text: string) => {
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const resp = await ai.models.generateContent({ model: 'gemini-3-flash-preview', contents: `Translate the following English text to Chinese: "${text}". Just the translation.`, });
-      return resp.text?.trim() || "";
+      return await getAIProvider().generateText(`Translate the following English text to Chinese: "${text}". Just the translation.`, 'translate');
     } catch { return ""; }
   };
 
   const cleanup = useCallback(() => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    if (recordIdRef.current) {
+      const id = recordIdRef.current;
+      const audioKey = recorder && !recorder.isEmpty ? `session:${id}` : undefined;
+      let saved = false;
+      storage.update<LiveSessionRecord>('sessions', id, rec => { saved = !!rec; return rec && { ...rec, endedAt: Date.now(), audioKey }; })
+        .then(() => { if (saved && audioKey) return storage.put<StoredAudio>('audio', { key: audioKey, blob: recorder!.toWav(), createdAt: Date.now() }); })
+        .catch(e => console.error("Failed to save session", e));
+      if (userTurnsRef.current > 0) setReportSessionId(id);
+      recordIdRef.current = null;
+    }
+    if (liveSinceRef.current) {
+      onActivityRef.current({ module: 'live', kind: 'live', seconds: Math.round((Date.now() - liveSinceRef.current) / 1000) });
+      liveSinceRef.current = null;
+    }
+    connectionIdRef.current++;
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+    reconnectTimerRef.current = null; resumptionHandleRef.current = null; retryRef.current = null;
     if (sessionRef.current) {
-      sessionRef.current.then((s: any) => { if (s && typeof s.close === 'function') s.close(); });
+      sessionRef.current.then((s: any) => { if (s && typeof s.close === 'function') s.close(); }, () => {});
       sessionRef.current = null;
     }
     sourcesRef.current.forEach(source => { try { source.stop(); } catch {} });
     sourcesRef.current.clear();
     if (audioContextRef.current && audioContextRef.current.state !== 'closed') audioContextRef.current.close().catch(() => {});
-    if (inputContextRef.current && inputContextRef.current.state !== 'closed') inputContextRef.current.close().catch(() => {});
-    setConnected(false); setConnecting(false); setTranscript([]); setLiveUserText(""); setLiveModelText(""); setTopic(null);
+    micRef.current?.stop(); micRef.current = null;
+    sendRef.current = null; pttRef.current = false; bargeInRef.current = null;
+    playingEntryRef.current = null; generatingRef.current = false; dropStaleAudioRef.current = false;
+    setCallState('ended'); setReconnectAttempt(0); setTranscript([]); setLiveUserText(""); setLiveModelText(""); setTopic(null);
+    levelFeed.set(0); setUserSpeaking(false);
     accumulatedInputRef.current = ""; accumulatedOutputRef.current = "";
   }, []);
 
+  // Leaving the tab mid-call must still release the mic, the session and any pending reconnect.
+  const cleanupRef = useRef(cleanup);
+  cleanupRef.current = cleanup;
+  useEffect(() => () => cleanupRef.current(), []);
+
   const startSession = async (selectedTopic: string) => {
-    setConnecting(true); setTopic(selectedTopic);
+    setCallState('connecting'); setTopic(selectedTopic);
+    const startedAt = Date.now();
+    const recordId = `live-${startedAt}`;
+    recordIdRef.current = recordId;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      inputContextRef.current = inputCtx;
+      let vad = new VoiceActivityDetector();
+      const handsFree = micMode === 'handsfree';
+      const handleChunk = (chunk: MicChunk) => {
+        if (!micRef.current) return;
+        // Both tracks are timed on the output context's clock; the mic context runs on its own and drifts.
+        const output = audioContextRef.current;
+        if (output) recorderRef.current?.add(0, output.currentTime - outputStartRef.current - chunk.pcm.length / MIC_SAMPLE_RATE, chunk.pcm, MIC_SAMPLE_RATE);
+        levelFeed.set(levelFromRms(chunk.rms));
+        const send = sendRef.current;
+        if (!send) return;
+        if (!handsFree) {
+          if (pttRef.current) send({ audio: createBlob(chunk.pcm) });
+          return;
+        }
+        // Only speech goes to the server; silence between turns stays local.
+        const event = vad.push(chunk);
+        if (event?.type === 'start') {
+          bargeInRef.current?.();
+          send({ activityStart: {} });
+          event.preRoll.forEach(pcm => send({ audio: createBlob(pcm) }));
+          setUserSpeaking(true);
+        }
+        if (vad.speaking || event?.type === 'end') send({ audio: createBlob(chunk.pcm) });
+        if (event?.type === 'end') {
+          send({ activityEnd: {} });
+          setUserSpeaking(false);
+        }
+      };
+      const mic = await MicCapture.start(handleChunk);
+      micRef.current = mic;
       const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
       audioContextRef.current = outputCtx;
       nextStartTimeRef.current = outputCtx.currentTime;
+      outputStartRef.current = outputCtx.currentTime;
+      lastTurnEndRef.current = 0; turnAudioRef.current = null; userTurnsRef.current = 0;
+      recorderRef.current = recordAudio ? new SessionRecorder() : null;
+      const recordingNow = () => outputCtx.currentTime - outputStartRef.current;
 
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-          systemInstruction: `You are an English tutor. Topic: "${selectedTopic}". Be helpful and correct my errors briefly.`,
-        },
-        callbacks: {
-          onopen: () => {
-            setConnected(true); setConnecting(false);
-            const source = inputCtx.createMediaStreamSource(stream);
-            const scriptProcessor = inputCtx.createScriptProcessor(4096, 1, 1);
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createBlob(inputData);
-              sessionPromise.then(s => s.sendRealtimeInput({ media: pcmBlob }));
-            };
-            source.connect(scriptProcessor); scriptProcessor.connect(inputCtx.destination);
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-            if (msg.serverContent?.inputTranscription) {
-              accumulatedInputRef.current += msg.serverContent.inputTranscription.text;
-              setLiveUserText(accumulatedInputRef.current);
-            }
-            if (msg.serverContent?.outputTranscription) {
-              accumulatedOutputRef.current += msg.serverContent.outputTranscription.text;
-              setLiveModelText(accumulatedOutputRef.current);
-            }
-            if (msg.serverContent?.turnComplete) {
-               const finalUserText = accumulatedInputRef.current.trim();
-               const finalModelText = accumulatedOutputRef.current.trim();
-               const entriesToAdd: TranscriptEntry[] = [];
-               const idPrefix = Date.now().toString();
-               if (finalUserText) entriesToAdd.push({ id: idPrefix + '-u', role: 'user', text: finalUserText });
-               if (finalModelText) entriesToAdd.push({ id: idPrefix + '-m', role: 'model', text: finalModelText });
-               setTranscript(prev => [...prev, ...entriesToAdd]);
-               accumulatedInputRef.current = ""; accumulatedOutputRef.current = "";
-               setLiveUserText(""); setLiveModelText("");
-               entriesToAdd.forEach(async (entry) => {
-                 const translation = await translateText(entry.text);
-                 setTranscript(prev => prev.map(t => t.id === entry.id ? { ...t, translation } : t));
-               });
-            }
-            const data = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (data && outputCtx && outputCtx.state !== 'closed') {
-              const audioBuffer = await decodeAudioData(decode(data), outputCtx, 24000, 1);
-              const source = outputCtx.createBufferSource();
-              source.buffer = audioBuffer; source.connect(outputCtx.destination);
-              const now = outputCtx.currentTime;
-              const startTime = Math.max(nextStartTimeRef.current, now);
-              source.start(startTime); nextStartTimeRef.current = startTime + audioBuffer.duration;
-              sourcesRef.current.add(source); source.onended = () => sourcesRef.current.delete(source);
-            }
-          },
-          onclose: () => cleanup(),
-          onerror: (err) => { console.error(err); cleanup(); }
+      const spoken: TranscriptEntry[] = [];
+      const commitTurn = (interrupted: boolean) => {
+        const finalUserText = accumulatedInputRef.current.trim();
+        const finalModelText = accumulatedOutputRef.current.trim();
+        const entriesToAdd: TranscriptEntry[] = [];
+        const idPrefix = Date.now().toString();
+        // The learner spoke between the end of the last tutor turn and the start of this one.
+        const modelAudio = turnAudioRef.current;
+        const recorded = !!recorderRef.current;
+        const userAudio = recorded ? { start: lastTurnEndRef.current, end: modelAudio?.start ?? recordingNow() } : undefined;
+        if (finalUserText) { entriesToAdd.push({ id: idPrefix + '-u', role: 'user', text: finalUserText, audio: userAudio }); userTurnsRef.current++; }
+        if (finalModelText) {
+          entriesToAdd.push({ id: idPrefix + '-m', role: 'model', text: finalModelText, audio: recorded && modelAudio ? modelAudio : undefined, ...(interrupted && { interrupted }) });
+          playingEntryRef.current = !interrupted && nextStartTimeRef.current > outputCtx.currentTime ? idPrefix + '-m' : null;
         }
-      });
-      sessionRef.current = sessionPromise;
+        lastTurnEndRef.current = modelAudio?.end ?? recordingNow();
+        turnAudioRef.current = null;
+        spoken.push(...entriesToAdd);
+        setTranscript(prev => [...prev, ...entriesToAdd]);
+        accumulatedInputRef.current = ""; accumulatedOutputRef.current = "";
+        setLiveUserText(""); setLiveModelText("");
+        // The stored record is written independently of component state so that
+        // translations arriving after the call ends still reach the history.
+        if (entriesToAdd.length) {
+          storage.update<LiveSessionRecord>('sessions', recordId, rec => {
+            const base = rec || { id: recordId, topic: selectedTopic, startedAt, endedAt: startedAt, transcript: [] };
+            return { ...base, endedAt: Date.now(), transcript: [...base.transcript, ...entriesToAdd] };
+          }).catch(e => console.error("Failed to save session", e));
+        }
+        entriesToAdd.forEach(async (entry) => {
+          const translation = await translateText(entry.text);
+          setTranscript(prev => prev.map(t => t.id === entry.id ? { ...t, translation } : t));
+          storage.update<LiveSessionRecord>('sessions', recordId, rec => rec && { ...rec, transcript: rec.transcript.map(t => t.id === entry.id ? { ...t, translation } : t) })
+            .catch(e => console.error("Failed to save session", e));
+        });
+      };
+
+      // Silences queued tutor audio and trims it from the recording. Returns the cut point,
+      // or null if nothing was still playing.
+      const flushPlayback = () => {
+        sourcesRef.current.forEach(source => { try { source.stop(); } catch {} });
+        sourcesRef.current.clear();
+        const now = outputCtx.currentTime;
+        const wasPlaying = nextStartTimeRef.current > now;
+        nextStartTimeRef.current = now;
+        if (!wasPlaying) return null;
+        const cut = recordingNow();
+        recorderRef.current?.truncate(1, cut);
+        if (turnAudioRef.current) turnAudioRef.current = { ...turnAudioRef.current, end: Math.min(turnAudioRef.current.end, cut) };
+        return cut;
+      };
+
+      const markInterrupted = (entryId: string, cut: number) => {
+        const trim = (t: TranscriptEntry): TranscriptEntry => t.id !== entryId ? t : { ...t, interrupted: true, audio: t.audio && { ...t.audio, end: Math.min(t.audio.end, cut) } };
+        setTranscript(prev => prev.map(trim));
+        storage.update<LiveSessionRecord>('sessions', recordId, rec => rec && { ...rec, transcript: rec.transcript.map(trim) })
+          .catch(e => console.error("Failed to save session", e));
+        if (lastTurnEndRef.current > cut) lastTurnEndRef.current = cut;
+      };
+
+      // The tutor's turn ends where the learner cut in: whatever was still in flight is kept
+      // as an interrupted turn of its own rather than merged into the next reply.
+      const interruptTurn = () => {
+        const cut = flushPlayback();
+        if (accumulatedOutputRef.current.trim() || accumulatedInputRef.current.trim()) commitTurn(true);
+        else if (cut !== null && playingEntryRef.current) markInterrupted(playingEntryRef.current, cut);
+        playingEntryRef.current = null;
+      };
+
+      // Local barge-in: the learner started talking while the tutor was still audible. Generation
+      // may also still be running, in which case its remaining chunks are dropped until the server
+      // acknowledges the interruption or finishes the turn.
+      bargeInRef.current = () => {
+        if (nextStartTimeRef.current <= outputCtx.currentTime && !generatingRef.current) return;
+        if (generatingRef.current) dropStaleAudioRef.current = true;
+        interruptTurn();
+      };
+
+      const systemInstruction = (reconnecting: boolean) => {
+        const base = `You are an English tutor. Topic: "${selectedTopic}". Be helpful and correct my errors briefly. ${profilePrompt(profile)} Match your speaking pace and sentence length to this level too.`;
+        if (!reconnecting || !spoken.length) return base;
+        const recap = spoken.slice(-6).map(t => `${t.role === 'user' ? 'Learner' : 'Tutor'}: ${t.text}`).join("\n");
+        return `${base}\nThe call dropped and has just been reconnected. Don't greet again; carry on from here:\n${recap}`;
+      };
+
+      let attempt = 0, wasLive = false;
+      const connect = () => {
+        reconnectTimerRef.current = null;
+        const connectionId = ++connectionIdRef.current;
+        const isCurrent = () => connectionIdRef.current === connectionId;
+        const resumptionHandle = resumptionHandleRef.current ?? undefined;
+        // A socket that is closing can throw on send; that drops the connection like onclose would.
+        const send = (input: Parameters<LiveSessionHandle['sendRealtimeInput']>[0]) => {
+          sessionPromise.then(s => s.sendRealtimeInput(input)).catch(e => { console.error(e); if (isCurrent()) dropConnection(false); });
+        };
+        const stopSending = () => { if (sendRef.current === send) sendRef.current = null; };
+        const sessionPromise = getAIProvider().connectLive({
+          // A resumed session keeps its context on the server; only a fresh one after a drop needs the recap.
+          systemInstruction: systemInstruction(wasLive && !resumptionHandle),
+          resumptionHandle,
+          callbacks: {
+            onopen: () => {
+              if (!isCurrent()) return;
+              wasLive = true; attempt = 0;
+              liveSinceRef.current ??= Date.now();
+              setCallState('live'); setReconnectAttempt(0);
+              sendRef.current = send;
+            },
+            onmessage: async (msg: LiveServerMessage) => {
+              if (!isCurrent()) return;
+              const resumption = msg.sessionResumptionUpdate;
+              if (resumption?.resumable && resumption.newHandle) resumptionHandleRef.current = resumption.newHandle;
+              // The server is about to close this connection; move to a fresh one straight away.
+              if (msg.goAway) { dropConnection(true); return; }
+              if (msg.serverContent?.inputTranscription) {
+                accumulatedInputRef.current += msg.serverContent.inputTranscription.text;
+                setLiveUserText(accumulatedInputRef.current);
+              }
+              if (msg.serverContent?.outputTranscription && !dropStaleAudioRef.current) {
+                generatingRef.current = true;
+                accumulatedOutputRef.current += msg.serverContent.outputTranscription.text;
+                setLiveModelText(accumulatedOutputRef.current);
+              }
+              // After a local barge-in the cut-off turn is already committed; the server's
+              // interrupted/turnComplete for it only tells us its stale audio has stopped coming.
+              if (msg.serverContent?.interrupted) {
+                if (!dropStaleAudioRef.current) interruptTurn();
+                dropStaleAudioRef.current = false; generatingRef.current = false;
+              }
+              if (msg.serverContent?.turnComplete) {
+                if (!dropStaleAudioRef.current) commitTurn(false);
+                dropStaleAudioRef.current = false; generatingRef.current = false;
+              }
+              const data = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+              if (data && !dropStaleAudioRef.current && outputCtx && outputCtx.state !== 'closed') {
+                generatingRef.current = true;
+                const audioBuffer = await decodeAudioData(decode(data), outputCtx, 24000, 1);
+                const source = outputCtx.createBufferSource();
+                source.buffer = audioBuffer; source.connect(outputCtx.destination);
+                const now = outputCtx.currentTime;
+                const startTime = Math.max(nextStartTimeRef.current, now);
+                source.start(startTime); nextStartTimeRef.current = startTime + audioBuffer.duration;
+                sourcesRef.current.add(source); source.onended = () => sourcesRef.current.delete(source);
+                const at = startTime - outputStartRef.current;
+                recorderRef.current?.add(1, at, audioBuffer.getChannelData(0), audioBuffer.sampleRate);
+                turnAudioRef.current = { start: turnAudioRef.current?.start ?? at, end: at + audioBuffer.duration };
+              }
+            },
+            onclose: () => { stopSending(); if (isCurrent()) dropConnection(false); },
+            onerror: (err) => { console.error(err); stopSending(); if (isCurrent()) dropConnection(false); }
+          }
+        });
+        sessionRef.current = sessionPromise;
+        sessionPromise.catch(e => { console.error(e); if (isCurrent()) dropConnection(false); });
+      };
+
+      // Drops the current connection and schedules the next attempt. `immediate` is for planned
+      // hand-overs (goAway), which neither wait nor count against the retry budget.
+      const dropConnection = (immediate: boolean) => {
+        const previous = sessionRef.current;
+        connectionIdRef.current++;
+        sessionRef.current = null; sendRef.current = null;
+        previous?.then((s: LiveSessionHandle) => s.close(), () => {});
+        // A new connection can't finish a half-spoken turn, so keep what arrived as interrupted.
+        if (accumulatedOutputRef.current.trim() || accumulatedInputRef.current.trim()) commitTurn(true);
+        generatingRef.current = false; dropStaleAudioRef.current = false; playingEntryRef.current = null;
+        pttRef.current = false; vad = new VoiceActivityDetector(); setUserSpeaking(false);
+        setLiveUserText(""); setLiveModelText("");
+        if (!immediate) attempt++;
+        if (!wasLive || attempt > MAX_RECONNECT_ATTEMPTS) { setCallState('failed'); return; }
+        setCallState('reconnecting'); setReconnectAttempt(attempt);
+        reconnectTimerRef.current = setTimeout(connect, immediate ? 0 : reconnectDelay(attempt));
+      };
+
+      retryRef.current = () => {
+        attempt = 0;
+        setCallState(wasLive ? 'reconnecting' : 'connecting'); setReconnectAttempt(0);
+        connect();
+      };
+      connect();
     } catch (e) {
-      console.error(e); alert("无法启动会话，请检查麦克风权限或 API Key。"); setConnecting(false); setTopic(null);
+      console.error(e); alert("无法启动会话，请检查麦克风权限或 API Key。"); setCallState('ended'); setTopic(null); recordIdRef.current = null;
+      micRef.current?.stop(); micRef.current = null;
     }
   };
 
-  if (!connected && !connecting) {
+  const startTalking = () => {
+    if (!sendRef.current || pttRef.current) return;
+    pttRef.current = true; setUserSpeaking(true);
+    bargeInRef.current?.();
+    sendRef.current({ activityStart: {} });
+  };
+
+  const stopTalking = () => {
+    if (!sendRef.current || !pttRef.current) return;
+    pttRef.current = false; setUserSpeaking(false);
+    sendRef.current({ activityEnd: {} });
+  };
+
+  if (callState === 'ended' && reportSessionId) {
+    return <SpeakingReportView sessionId={reportSessionId} onMistake={onMistake} onClose={() => setReportSessionId(null)} />;
+  }
+
+  if (callState === 'ended' && showHistory) {
+    return <LiveHistory onSaveWord={onSaveWord} onMistake={onMistake} onBack={() => setShowHistory(false)} />;
+  }
+
+  if (callState === 'ended') {
     return (
       <div className="h-full flex flex-col bg-slate-50 p-6">
-        <h2 className="text-2xl font-bold text-slate-800 mb-2">口语主题</h2>
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-2xl font-bold text-slate-800">口语主题</h2>
+          <button onClick={() => setShowHistory(true)} className="text-sm text-slate-500 hover:text-emerald-600 flex items-center gap-1"><History size={16} /> 历史对话</button>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-500 mb-4 cursor-pointer select-none">
+          <input type="checkbox" checked={recordAudio} onChange={e => setRecordAudio(e.target.checked)} className="accent-emerald-600" />
+          录制对话音频（可在历史对话中逐句回放）
+        </label>
+        <div className="flex bg-slate-100 p-1 rounded-lg mb-4 text-xs font-bold">
+          <button onClick={() => setMicMode('handsfree')} className={`flex-1 py-2 rounded-md transition-all ${micMode === 'handsfree' ? 'bg-white shadow-sm text-emerald-600' : 'text-slate-400'}`}>免提（自动检测说话）</button>
+          <button onClick={() => setMicMode('ptt')} className={`flex-1 py-2 rounded-md transition-all ${micMode === 'ptt' ? 'bg-white shadow-sm text-emerald-600' : 'text-slate-400'}`}>按住说话</button>
+        </div>
         <div className="grid grid-cols-2 gap-3">
           {topics.map(t => (
             <button key={t.name} onClick={() => startSession(t.name)} className="p-4 bg-white border border-slate-200 hover:border-emerald-500 rounded-xl text-left transition-all flex flex-col gap-2">
@@ -682,7 +4289,7 @@ const LiveTutor = ({ onSaveWord, topics = [] }: { onSaveWord: (text: string, tra
     );
   }
 
-  if (connecting) {
+  if (callState === 'connecting') {
      return <div className="h-full flex items-center justify-center bg-slate-900 text-white flex-col gap-4">
         <div className="w-12 h-12 border-4 border-emerald-500 border-t-transparent rounded-full animate-spin"></div>
         <p className="text-emerald-400 font-bold">连接中...</p>
@@ -692,25 +4299,36 @@ const LiveTutor = ({ onSaveWord, topics = [] }: { onSaveWord: (text: string, tra
   return (
     <div className="h-full flex flex-col relative bg-slate-900 text-white overflow-hidden">
       <div className="p-4 border-b border-slate-800 flex justify-between items-center z-10 shrink-0">
-        <div className="flex items-center gap-2"><div className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse"></div><span className="font-bold text-sm">{topic}</span></div>
+        <div className="flex items-center gap-2"><div className={`w-2 h-2 rounded-full ${callState === 'live' ? 'bg-emerald-500 animate-pulse' : callState === 'reconnecting' ? 'bg-amber-400 animate-pulse' : 'bg-rose-500'}`}></div><span className="font-bold text-sm">{topic}</span>{recordAudio && <span className="text-[10px] font-bold text-rose-400 border border-rose-400/40 px-1.5 rounded">REC</span>}</div>
         <button onClick={cleanup} className="bg-rose-500/20 text-rose-400 px-4 py-1.5 rounded-full text-xs font-bold hover:bg-rose-500/30">结束通话</button>
       </div>
+      {callState === 'reconnecting' && (
+        <div className="px-4 py-2 bg-amber-500/15 text-amber-300 text-xs font-bold flex items-center gap-2 shrink-0">
+          <RefreshCw size={14} className="animate-spin" /> 网络不稳定，正在重新连接…{reconnectAttempt > 0 && `（第 ${reconnectAttempt}/${MAX_RECONNECT_ATTEMPTS} 次）`}
+        </div>
+      )}
+      {callState === 'failed' && (
+        <div className="px-4 py-2 bg-rose-500/15 text-rose-300 text-xs font-bold flex items-center justify-between gap-2 shrink-0">
+          <span>连接已断开，对话记录已保留。</span>
+          <button onClick={() => retryRef.current?.()} className="flex items-center gap-1 bg-rose-500/20 px-3 py-1 rounded-full hover:bg-rose-500/30"><RefreshCw size={12} /> 重试</button>
+        </div>
+      )}
       <Tooltip tooltip={tooltip} onSave={onSaveWord} onClose={() => setTooltip(null)} />
       <div ref={transcriptBoxRef} className="flex-1 overflow-y-auto p-4 space-y-6 scrollbar-hide pb-32">
-        {transcript.map((t) => (
-           <div key={t.id} className={`flex flex-col ${t.role === 'user' ? 'items-end' : 'items-start'} animate-in slide-in-from-bottom-2`}>
-              <div className={`max-w-[85%] p-4 rounded-2xl text-sm ${t.role === 'user' ? 'bg-emerald-600' : 'bg-slate-800 border border-slate-700'}`}>
-                <InteractiveText text={t.text} isDark={true} />
-                {t.translation && <p className="mt-2 text-[11px] opacity-60 border-t border-white/10 pt-2">{t.translation}</p>}
-              </div>
-           </div>
-        ))}
+        {transcript.map((t) => <TranscriptBubble key={t.id} entry={t} InteractiveText={InteractiveText} />)}
         {liveUserText && <div className="flex flex-col items-end opacity-50"><div className="p-4 bg-emerald-600 rounded-2xl text-sm">{liveUserText}</div></div>}
         {liveModelText && <div className="flex flex-col items-start opacity-50"><div className="p-4 bg-slate-800 rounded-2xl text-sm border border-slate-700">{liveModelText}</div></div>}
       </div>
       <div className="absolute bottom-0 left-0 right-0 h-28 bg-gradient-to-t from-slate-950 flex items-center justify-center flex-col gap-3 pointer-events-none">
-         <div className="flex items-center gap-1.5 h-10">{[...Array(5)].map((_, i) => <div key={i} className="w-1.5 bg-emerald-400 rounded-full wave-bar" style={{ animationDelay: `${i * 0.1}s` }}></div>)}</div>
-         <p className="text-slate-400 text-[10px] font-bold uppercase tracking-widest">收听中...</p>
+         <LevelMeter feed={levelFeed} active={userSpeaking} />
+         {micMode === 'ptt' ? (
+           <button
+             onPointerDown={startTalking} onPointerUp={stopTalking} onPointerLeave={stopTalking} onPointerCancel={stopTalking}
+             className={`pointer-events-auto select-none touch-none px-8 py-2 rounded-full text-xs font-bold transition-all ${userSpeaking ? 'bg-emerald-500 text-white scale-105' : 'bg-slate-800 text-slate-300 border border-slate-700'}`}
+           >{userSpeaking ? "松开发送" : "按住说话"}</button>
+         ) : (
+           <p className="text-slate-400 text-[10px] font-bold uppercase tracking-widest">{userSpeaking ? "正在说话..." : "等待你开口..."}</p>
+         )}
       </div>
     </div>
   );
@@ -718,48 +4336,496 @@ const LiveTutor = ({ onSaveWord, topics = [] }: { onSaveWord: (text: string, tra
 
 // --- Listening Lab ---
 
-const ListeningLab = ({ onSaveWord, onMistake, topics = [] }: any) => {
+const SENTENCE_GAP_SECONDS = 0.4;
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5];
+const ABBREVIATIONS = /\b(Mr|Mrs|Ms|Dr|St|Prof|Jr|Sr|vs|etc|e\.g|i\.e)\.$/i;
+
+function splitSentences(text: string): string[] {
+  const pieces = text.match(/[^.!?]+(?:[.!?]+["'”’)]*|$)\s*/g) || [];
+  const sentences: string[] = [];
+  for (const piece of pieces) {
+    const last = sentences.length - 1;
+    if (last >= 0 && ABBREVIATIONS.test(sentences[last])) sentences[last] += " " + piece.trim();
+    else if (piece.trim()) sentences.push(piece.trim());
+  }
+  return sentences;
+}
+
+type SpokenSentence = { text: string; speech: SpeechSettings; speaker?: string };
+
+const TTS_CONCURRENCY = 3;
+const TTS_RETRY_DELAYS_MS = [1000, 3000];
+
+// Retries thrown errors such as rate limits; null means the provider has no voice, which won't change.
+async function speechPcmWithRetry(text: string, settings: SpeechSettings) {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await speechPcm(text, settings);
+    } catch (e) {
+      if (attempt >= TTS_RETRY_DELAYS_MS.length) { console.warn("Speech synthesis failed", e); return null; }
+      await new Promise(resolve => setTimeout(resolve, TTS_RETRY_DELAYS_MS[attempt]));
+    }
+  }
+}
+
+// Synthesizes each sentence on its own and joins them with a short pause, so every sentence
+// has exact boundaries in the lesson audio. Sentences go through the pronunciation cache, so a
+// lesson opened again plays without new TTS calls. If a sentence still fails after retries the
+// whole text is voiced in one request instead, which returns no timings; null means no audio at all.
+async function synthesizeSentences(sentences: SpokenSentence[]): Promise<{ wav: Blob; timings: TimedSentence[] } | null> {
+  if (!sentences.length) return null;
+  let failed = false;
+  // Once a sentence has failed the rest are skipped; they'd only be thrown away.
+  const clips = await mapConcurrent(sentences, TTS_CONCURRENCY, async s => {
+    const clip = failed ? null : await speechPcmWithRetry(s.text, s.speech);
+    if (!clip) failed = true;
+    return clip;
+  });
+  if (failed) {
+    const text = sentences.map((s, i) => s.speaker && s.speaker !== sentences[i - 1]?.speaker ? `${s.speaker}: ${s.text}` : s.text).join(" ");
+    const whole = await speechPcmWithRetry(text, sentences[0].speech);
+    return whole && { wav: pcmToWav(whole), timings: [] };
+  }
+  const gapBytes = Math.round(SENTENCE_GAP_SECONDS * 24000) * 2;
+  const pcm = new Uint8Array(clips.reduce((sum, clip) => sum + clip!.length + gapBytes, 0));
+  const timings: TimedSentence[] = [];
+  let offset = 0;
+  clips.forEach((clip, i) => {
+    pcm.set(clip!, offset);
+    timings.push({ text: sentences[i].text, speaker: sentences[i].speaker, start: offset / 48000, end: (offset + clip!.length) / 48000 });
+    offset += clip!.length + gapBytes;
+  });
+  return { wav: pcmToWav(pcm), timings };
+}
+
+// Gives each speaker a distinct voice of their gender, preferring the learner's own voice.
+// Dialogues are voiced line by line rather than with a multi-speaker TTS request, so the
+// sentence player and dictation keep exact per-sentence timings.
+function dialogueVoices(speakers: DialogueSpeaker[], preferred: SpeechSettings): Record<string, SpeechSettings> {
+  const used = new Set<string>();
+  const voices: Record<string, SpeechSettings> = {};
+  for (const speaker of speakers) {
+    const candidates = TTS_VOICES.filter(v => v.gender === speaker.gender && !used.has(v.name));
+    const voice = candidates.find(v => v.name === preferred.voice) || candidates[0] || TTS_VOICES.find(v => !used.has(v.name))!;
+    used.add(voice.name);
+    voices[speaker.name] = { voice: voice.name, accent: preferred.accent };
+  }
+  return voices;
+}
+
+// Drives an <audio> element sentence by sentence. Loop boundaries are checked every frame
+// because timeupdate fires too rarely to stop cleanly at the end of a short sentence.
+function useSentencePlayer(timings: TimedSentence[]) {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [current, setCurrent] = useState(0);
+  const [rate, setRate] = useState(1);
+  const [repeatOne, setRepeatOne] = useState(false);
+  // Sentence indices; `b` stays null until the second point is marked.
+  const [loop, setLoop] = useState<{ a: number; b: number | null } | null>(null);
+  // Sentence to pause after, for playing a single sentence without looping (dictation).
+  const stopAfterRef = useRef<number | null>(null);
+  const stateRef = useRef({ current, repeatOne, loop });
+  stateRef.current = { current, repeatOne, loop };
+
+  const loopRegion = () => {
+    const { current, repeatOne, loop } = stateRef.current;
+    if (loop && loop.b !== null) return { start: timings[loop.a].start, end: timings[loop.b].end + SENTENCE_GAP_SECONDS / 2 };
+    if (repeatOne && timings[current]) return { start: timings[current].start, end: timings[current].end + SENTENCE_GAP_SECONDS / 2 };
+    return null;
+  };
+
+  useEffect(() => {
+    setPlaying(false); setCurrent(0); setLoop(null); setRepeatOne(false);
+  }, [timings]);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  }, [rate, timings]);
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    const tick = () => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      const stopAfter = stopAfterRef.current;
+      if (stopAfter !== null && audio.currentTime >= timings[stopAfter].end) {
+        stopAfterRef.current = null;
+        audio.pause(); setPlaying(false);
+        return;
+      }
+      const region = loopRegion();
+      if (region && audio.currentTime >= region.end) audio.currentTime = region.start;
+      const index = timings.findIndex(t => audio.currentTime < t.end + SENTENCE_GAP_SECONDS);
+      const next = index === -1 ? timings.length - 1 : index;
+      if (next !== stateRef.current.current) setCurrent(next);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, timings]);
+
+  const play = () => { audioRef.current?.play().then(() => setPlaying(true)).catch(() => setPlaying(false)); };
+  const pause = () => { audioRef.current?.pause(); setPlaying(false); };
+
+  const playSentence = (index: number, once = false) => {
+    const audio = audioRef.current;
+    if (!audio || !timings[index]) return;
+    stopAfterRef.current = once ? index : null;
+    audio.currentTime = timings[index].start;
+    setCurrent(index);
+    play();
+  };
+
+  const onEnded = () => {
+    const region = loopRegion();
+    if (region && audioRef.current) { audioRef.current.currentTime = region.start; play(); }
+    else setPlaying(false);
+  };
+
+  // A-B cycles through: mark A, mark B, clear.
+  const toggleLoop = () => {
+    if (!loop) setLoop({ a: current, b: null });
+    else if (loop.b === null) setLoop({ a: Math.min(loop.a, current), b: Math.max(loop.a, current) });
+    else setLoop(null);
+  };
+
+  return {
+    audioRef, timings, playing, current, rate, repeatOne, loop, onEnded,
+    toggle: () => { stopAfterRef.current = null; playing ? pause() : play(); },
+    playSentence,
+    prev: () => playSentence(Math.max(0, current - 1)),
+    next: () => playSentence(Math.min(timings.length - 1, current + 1)),
+    setRate,
+    toggleRepeat: () => setRepeatOne(r => !r),
+    toggleLoop,
+  };
+}
+
+const SentencePlayer = ({ player }: { player: ReturnType<typeof useSentencePlayer> }) => {
+  const { timings, playing, current, rate, repeatOne, loop } = player;
+  const loopLabel = !loop ? "A-B" : loop.b === null ? `A:${loop.a + 1} → B?` : `${loop.a + 1}-${loop.b + 1} 循环中`;
+  return (
+    <div className="w-full flex flex-col items-center gap-4">
+      <p className="text-xs font-bold text-indigo-400">第 {current + 1} / {timings.length} 句</p>
+      <div className="flex items-center gap-6">
+        <button onClick={player.prev} disabled={current === 0} className="text-indigo-500 disabled:opacity-30"><SkipBack size={24} /></button>
+        <button onClick={player.toggle} className="bg-indigo-600 text-white w-16 h-16 rounded-full flex items-center justify-center shadow-lg">{playing ? <Pause size={32} /> : <Play size={32} className="ml-1" />}</button>
+        <button onClick={player.next} disabled={current === timings.length - 1} className="text-indigo-500 disabled:opacity-30"><SkipForward size={24} /></button>
+      </div>
+      <div className="flex flex-wrap justify-center gap-2 text-xs font-bold">
+        {PLAYBACK_RATES.map(r => (
+          <button key={r} onClick={() => player.setRate(r)} className={`px-2.5 py-1 rounded-full ${rate === r ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-500'}`}>{r}x</button>
+        ))}
+      </div>
+      <div className="flex gap-2 text-xs font-bold">
+        <button onClick={player.toggleRepeat} className={`px-3 py-1.5 rounded-full flex items-center gap-1 ${repeatOne ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-500'}`}><Repeat1 size={14} /> 单句循环</button>
+        <button onClick={player.toggleLoop} className={`px-3 py-1.5 rounded-full ${loop ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-500'}`}>{loopLabel}</button>
+      </div>
+    </div>
+  );
+};
+
+// --- Dictation ---
+
+type DictationOp = { kind: 'match' | 'missing' | 'extra' | 'misspelled'; expected?: string; actual?: string };
+
+const DICTATION_PASS_SCORE = 0.8;
+// Function words aren't worth a flashcard even when they're missed.
+const DICTATION_STOPWORDS = new Set("a an the to of in on at and or but is are was were be been am i you he she it we they me him her us them my your his its our their this that these those for with as by from do does did not no so if then than".split(" "));
+
+// Words are compared ignoring case and punctuation: "didn't" matches "didnt", and
+// hyphenated words count as their parts so "well-known" matches "well known".
+function dictationWords(text: string) {
+  return (text.replace(/[’‘]/g, "'").match(/[A-Za-z0-9]+(?:'[A-Za-z0-9]+)*/g) || []).map(display => ({ display, norm: display.toLowerCase().replace(/'/g, "") }));
+}
+
+function editDistance(a: string, b: string) {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+const isMisspelling = (expected: string, actual: string) => editDistance(expected, actual) <= Math.max(1, Math.floor(expected.length / 3));
+
+// Aligns the typed words with the sentence by longest common subsequence. Within each gap
+// between matches, a missing word and an extra word that look alike pair up as a misspelling.
+function diffDictation(expectedText: string, actualText: string): DictationOp[] {
+  const expected = dictationWords(expectedText), actual = dictationWords(actualText);
+  const lcs = Array.from({ length: expected.length + 1 }, () => new Array<number>(actual.length + 1).fill(0));
+  for (let i = expected.length - 1; i >= 0; i--) {
+    for (let j = actual.length - 1; j >= 0; j--) {
+      lcs[i][j] = expected[i].norm === actual[j].norm ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const ops: DictationOp[] = [];
+  let missing: string[] = [], extra: string[] = [];
+  const flushGap = () => {
+    let k = 0;
+    for (const e of missing) {
+      const m = extra.findIndex((a, idx) => idx >= k && isMisspelling(e.toLowerCase().replace(/'/g, ""), a.toLowerCase().replace(/'/g, "")));
+      if (m === -1) { ops.push({ kind: 'missing', expected: e }); continue; }
+      extra.slice(k, m).forEach(a => ops.push({ kind: 'extra', actual: a }));
+      ops.push({ kind: 'misspelled', expected: e, actual: extra[m] });
+      k = m + 1;
+    }
+    extra.slice(k).forEach(a => ops.push({ kind: 'extra', actual: a }));
+    missing = []; extra = [];
+  };
+  let i = 0, j = 0;
+  while (i < expected.length || j < actual.length) {
+    if (i < expected.length && j < actual.length && expected[i].norm === actual[j].norm) {
+      flushGap();
+      ops.push({ kind: 'match', expected: expected[i].display, actual: actual[j].display });
+      i++; j++;
+    } else if (j >= actual.length || (i < expected.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      missing.push(expected[i++].display);
+    } else {
+      extra.push(actual[j++].display);
+    }
+  }
+  flushGap();
+  return ops;
+}
+
+function dictationScore(ops: DictationOp[]) {
+  const expected = ops.filter(op => op.kind !== 'extra').length;
+  const extra = ops.length - expected;
+  return expected ? Math.max(0, ops.filter(op => op.kind === 'match').length - extra * 0.5) / expected : 0;
+}
+
+const DictationPanel = ({ player, onSaveWord, onMistake, onAnswer, onActivity }: { player: ReturnType<typeof useSentencePlayer>, onSaveWord: (text: string, translation: string, meta?: WordMeta) => void, onMistake: (m: NewMistake) => void, onAnswer: (module: AnswerModule, correct: boolean) => void, onActivity: (event: NewActivity) => void }) => {
+  const { timings } = player;
+  const [index, setIndex] = useState(0);
+  const [input, setInput] = useState("");
+  const [ops, setOps] = useState<DictationOp[] | null>(null);
+  const [scores, setScores] = useState<Record<number, number>>({});
+  // Keyed by lower-case word; counts every attempt in which the word was missed or misspelled.
+  const [missed, setMissed] = useState<Record<string, { word: string; count: number; context: string }>>({});
+  const [saved, setSaved] = useState<Set<string>>(new Set());
+  const [finished, setFinished] = useState(false);
+  const sentence = timings[index];
+
+  useEffect(() => {
+    setIndex(0); setInput(""); setOps(null); setScores({}); setMissed({}); setSaved(new Set()); setFinished(false);
+  }, [timings]);
+
+  const check = () => {
+    const result = diffDictation(sentence.text, input);
+    const score = dictationScore(result);
+    setOps(result);
+    setMissed(prev => {
+      const next = { ...prev };
+      result.forEach(op => {
+        if ((op.kind !== 'missing' && op.kind !== 'misspelled') || !op.expected) return;
+        const key = op.expected.toLowerCase();
+        if (key.length <= 2 || DICTATION_STOPWORDS.has(key) || /^\d+$/.test(key)) return;
+        next[key] = { word: next[key]?.word ?? op.expected, count: (next[key]?.count ?? 0) + 1, context: next[key]?.context ?? sentence.text };
+      });
+      return next;
+    });
+    // Only the first attempt at a sentence is scored and logged; retries are practice.
+    if (scores[index] !== undefined) return;
+    setScores(prev => ({ ...prev, [index]: score }));
+    onAnswer('dictation', score >= DICTATION_PASS_SCORE);
+    if (score < DICTATION_PASS_SCORE) {
+      const wrong = result.filter(op => op.kind !== 'match').map(op =>
+        op.kind === 'missing' ? `漏写 ${op.expected}` : op.kind === 'extra' ? `多写 ${op.actual}` : `${op.actual} → ${op.expected}`);
+      onMistake({ question: `听写第 ${index + 1} 句`, userAnswer: input.trim() || "（未作答）", correctAnswer: sentence.text, explanation: `得分 ${Math.round(score * 100)}%：${wrong.join("；")}`, type: 'listening' });
+    }
+  };
+
+  const retry = () => { setInput(""); setOps(null); player.playSentence(index, true); };
+
+  const next = () => {
+    if (index === timings.length - 1) {
+      const scored = Object.keys(scores).map(key => scores[Number(key)]);
+      onActivity({ module: 'dictation', kind: 'lesson', correct: scored.filter(x => x >= DICTATION_PASS_SCORE).length, total: timings.length });
+      setFinished(true);
+      return;
+    }
+    setIndex(index + 1); setInput(""); setOps(null);
+    player.playSentence(index + 1, true);
+  };
+
+  const saveMissed = async (word: string, context: string) => {
+    setSaved(prev => new Set(prev).add(word.toLowerCase()));
+    const entry = await lookupDictionary(word).catch(() => null);
+    onSaveWord(entry?.lemma ?? word, entry ? summarizeEntry(entry) : "", { context, source: 'listen', phonetic: entry?.phonetic || undefined });
+  };
+
+  const missedWords = Object.keys(missed).map(key => missed[key]).sort((a, b) => b.count - a.count);
+  const scored = Object.keys(scores).map(key => scores[Number(key)]);
+  const average = scored.length ? scored.reduce((sum, x) => sum + x, 0) / scored.length : 0;
+
+  if (finished) {
+    return (
+      <div className="bg-white p-6 rounded-2xl shadow-sm border border-indigo-100 space-y-4">
+        <div className="text-center">
+          <p className="text-sm text-slate-400 font-bold">听写完成</p>
+          <p className="text-4xl font-bold text-indigo-600 mt-1">{Math.round(average * 100)}%</p>
+          <p className="text-xs text-slate-400 mt-1">{scored.filter(x => x >= DICTATION_PASS_SCORE).length} / {timings.length} 句达标</p>
+        </div>
+        {missedWords.length > 0 && (
+          <div>
+            <h4 className="text-xs font-bold text-slate-400 mb-2">易错词</h4>
+            <div className="flex flex-wrap gap-2">
+              {missedWords.map(({ word, count, context }) => {
+                const isSaved = saved.has(word.toLowerCase());
+                return (
+                  <button key={word} disabled={isSaved} onClick={() => saveMissed(word, context)} className={`px-3 py-1.5 rounded-full text-xs font-bold flex items-center gap-1 ${isSaved ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600 hover:bg-rose-100'}`}>
+                    {isSaved ? <CheckCircle size={12} /> : <Plus size={12} />} {word}{count > 1 && <span className="opacity-60">×{count}</span>}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+        <button onClick={() => { setIndex(0); setInput(""); setOps(null); setScores({}); setFinished(false); }} className="w-full bg-indigo-600 text-white py-3 rounded-xl font-bold">再听写一遍</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-2xl shadow-sm border border-indigo-100 space-y-4">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-bold text-indigo-400">第 {index + 1} / {timings.length} 句{timings[index].speaker && ` · ${timings[index].speaker}`}</span>
+        <div className="flex gap-1 text-[10px] font-bold">
+          {PLAYBACK_RATES.map(r => (
+            <button key={r} onClick={() => player.setRate(r)} className={`px-2 py-0.5 rounded-full ${player.rate === r ? 'bg-indigo-600 text-white' : 'bg-indigo-50 text-indigo-500'}`}>{r}x</button>
+          ))}
+        </div>
+      </div>
+      <button onClick={() => player.playing ? player.toggle() : player.playSentence(index, true)} className="w-full py-3 rounded-xl bg-indigo-50 text-indigo-600 font-bold flex items-center justify-center gap-2">
+        {player.playing ? <><Pause size={18} /> 暂停</> : <><Volume2 size={18} /> 播放本句</>}
+      </button>
+      <textarea value={input} onChange={e => setInput(e.target.value)} disabled={!!ops} placeholder="听到什么就写什么..." className="w-full h-24 p-3 bg-slate-50 rounded-xl border border-slate-200 focus:border-indigo-400 outline-none resize-none" />
+      {ops && (
+        <div className="space-y-2">
+          <p className="leading-loose text-slate-700">
+            {ops.map((op, i) => (
+              <span key={i} className="mr-1.5">
+                {op.kind === 'match' && op.expected}
+                {op.kind === 'missing' && <span className="px-1 rounded bg-amber-100 text-amber-700 border-b-2 border-dashed border-amber-400">{op.expected}</span>}
+                {op.kind === 'extra' && <span className="px-1 rounded bg-rose-50 text-rose-400 line-through">{op.actual}</span>}
+                {op.kind === 'misspelled' && <span className="px-1 rounded bg-rose-50"><span className="text-rose-400 line-through mr-1">{op.actual}</span><span className="text-emerald-600 font-bold">{op.expected}</span></span>}
+              </span>
+            ))}
+          </p>
+          <p className="text-[10px] text-slate-400">黄色为漏写，删除线为多写，红绿为拼写错误 · 得分 {Math.round(dictationScore(ops) * 100)}%</p>
+        </div>
+      )}
+      {!ops
+        ? <button onClick={check} disabled={!input.trim()} className="w-full bg-slate-800 text-white py-3 rounded-xl font-bold disabled:opacity-40">核对</button>
+        : <div className="flex gap-3"><button onClick={retry} className="flex-1 bg-white border py-3 rounded-xl">重听重写</button><button onClick={next} className="flex-[2] bg-indigo-600 text-white py-3 rounded-xl font-bold">{index === timings.length - 1 ? "查看结果" : "下一句"}</button></div>}
+    </div>
+  );
+};
+
+const LESSON_FORMAT_LABELS = { story: "短文", dialogue: "对话" };
+
+// Consecutive sentences by the same speaker, for rendering a dialogue transcript turn by turn
+function speakerTurns(timings: TimedSentence[]) {
+  const turns: { speaker: string; items: { text: string; index: number }[] }[] = [];
+  timings.forEach((t, index) => {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === t.speaker) last.items.push({ text: t.text, index });
+    else turns.push({ speaker: t.speaker || "", items: [{ text: t.text, index }] });
+  });
+  return turns;
+}
+
+// Label colours for the first and second speaker of a dialogue
+const SPEAKER_STYLES = ["bg-indigo-100 text-indigo-700", "bg-amber-100 text-amber-700"];
+
+const ListeningLab = ({ lessonId = null, onOpenLesson, onSaveWord, onMistake, onAnswer, onActivity, profile, topics = [] }: any) => {
+  const [format, setFormat] = useState<keyof typeof LESSON_FORMAT_LABELS>('story');
+  const [shownId, setShownId] = useState<string | null>(null);
+  // Mirrors `shownId` for async callbacks that outlive the render they started in
+  const shownIdRef = useRef<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const [data, setData] = useState<any>(null);
+  const [data, setData] = useState<ListeningLesson | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [timings, setTimings] = useState<TimedSentence[]>([]);
   const [answers, setAnswers] = useState<Record<number, any>>({});
   const [result, setResult] = useState<Record<number, boolean> | null>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
-  const { tooltip, setTooltip, InteractiveText } = useWordLookup(onSaveWord);
+  const [mode, setMode] = useState<'quiz' | 'dictation'>('quiz');
+  const player = useSentencePlayer(timings);
+  const { tooltip, setTooltip, InteractiveText } = useWordLookup(onSaveWord, 'listen');
+
+  // Each lesson's audio URL is released when it's replaced or the lab unmounts.
+  useEffect(() => () => { if (audioUrl) URL.revokeObjectURL(audioUrl); }, [audioUrl]);
+
+  const clearLesson = () => {
+    shownIdRef.current = null;
+    setShownId(null); setAudioUrl(null); setTimings([]); setMode('quiz'); setData(null); setAnswers({}); setResult(null);
+  };
+
+  // Voices the lesson sentence by sentence; stored lessons hit the TTS cache, so reopening one is instant.
+  const showLesson = async (id: string, lesson: ListeningLesson) => {
+    shownIdRef.current = id;
+    setShownId(id); setData(lesson);
+    const voices = lesson.dialogue ? dialogueVoices(lesson.dialogue.speakers, profile.speech) : {};
+    const sentences: SpokenSentence[] = lesson.dialogue
+      ? lesson.dialogue.lines.flatMap(l => splitSentences(l.text).map(text => ({ text, speaker: l.speaker, speech: voices[l.speaker] })))
+      : splitSentences(lesson.story).map(text => ({ text, speech: profile.speech }));
+    // Text-only backends can't synthesize speech; the transcript is still usable without audio.
+    const audio = await synthesizeSentences(sentences);
+    // The learner may have left this lesson while it was being voiced.
+    if (audio && shownIdRef.current === id) {
+       setTimings(audio.timings);
+       setAudioUrl(URL.createObjectURL(audio.wav));
+    }
+  };
 
   const generateLesson = async (selectedTopic: string) => {
-    setLoading(true); setAudioUrl(null); setData(null); setAnswers({}); setResult(null);
+    clearLesson(); setLoading(true); setError(null);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const prompt = `Generate a story (120 words) about "${selectedTopic}" and 5 questions (2 TF, 2 single choice A-D, 1 multi choice A-D). Return JSON { "story": "...", "questions": [...] }`;
-      const textResp = await ai.models.generateContent({ model: "gemini-3-flash-preview", contents: prompt, config: { responseMimeType: "application/json" } });
-      const lessonData = JSON.parse(textResp.text || "{}");
-      setData(lessonData);
-      const audioResp = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: { parts: [{ text: lessonData.story }] },
-        config: { responseModalities: [Modality.AUDIO], speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } } }
-      });
-      const base64Audio = audioResp.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (base64Audio) {
-         const pcmBytes = decode(base64Audio);
-         const wavHeader = getWavHeader(pcmBytes.length, 24000);
-         const wavBlob = new Blob([wavHeader, pcmBytes], { type: 'audio/wav' });
-         setAudioUrl(URL.createObjectURL(wavBlob));
+      const words = LISTENING_STORY_WORDS[profile.level as CEFRLevel];
+      let lessonData: ListeningLesson;
+      if (format === 'dialogue') {
+        const prompt = `Write a natural conversation (${words} words, 8-12 lines) about "${selectedTopic}" between two people with different first names, one female and one male. Then write 5 questions (2 TF, 2 single choice A-D, 1 multi choice A-D) about who said what and why each speaker said it. ${profilePrompt(profile)} Return JSON { "speakers": [{ "name": "...", "gender": "female" }, { "name": "...", "gender": "male" }], "lines": [{ "speaker": "<a speaker name>", "text": "..." }], "questions": [...] }`;
+        const dialogue = await generateValidated(prompt, 'listeningDialogue', ListeningDialogueSchema);
+        lessonData = { story: dialogue.lines.map(l => `${l.speaker}: ${l.text}`).join("\n"), questions: dialogue.questions, dialogue: { speakers: dialogue.speakers, lines: dialogue.lines } };
+      } else {
+        const prompt = `Generate a story (${words} words) about "${selectedTopic}" and 5 questions (2 TF, 2 single choice A-D, 1 multi choice A-D). ${profilePrompt(profile)} Return JSON { "story": "...", "questions": [...] }`;
+        lessonData = await generateValidated(prompt, 'listeningLesson', ListeningLessonSchema);
       }
-    } catch { alert("生成失败"); } finally { setLoading(false); }
+      const id = await saveLesson({ id: newLessonId(), module: 'listening', createdAt: Date.now(), lesson: lessonData });
+      onOpenLesson(id);
+      await showLesson(id, lessonData);
+    } catch (e) { setError(describeError(e)); } finally { setLoading(false); }
   };
 
+  useRoutedLesson('listening', lessonId, shownId,
+    lesson => {
+      clearLesson(); setLoading(true); setError(null);
+      showLesson(lesson.id, lesson.lesson).catch(e => setError(describeError(e))).finally(() => setLoading(false));
+    },
+    clearLesson,
+    () => { setError(missingLessonMessage("这节听力课")); onOpenLesson(null, true); });
+
   const checkAnswers = () => {
     if (!data?.questions) return;
     const res: Record<number, boolean> = {};
-    data.questions.forEach((q: any) => {
+    data.questions.forEach((q) => {
        const isCorrect = q.type === 'multi' ? JSON.stringify([...(answers[q.id] || [])].sort()) === JSON.stringify([...(q.answer || [])].sort()) : answers[q.id] === q.answer;
        res[q.id] = isCorrect;
+       onAnswer('listening', isCorrect);
        if (!isCorrect) onMistake({ question: q.text, userAnswer: String(answers[q.id]), correctAnswer: String(q.answer), explanation: q.explanation, type: 'listening' });
     });
     setResult(res);
+    onActivity({ module: 'listening', kind: 'lesson', correct: data.questions.filter(q => res[q.id]).length, total: data.questions.length });
   };
 
   return (
@@ -768,14 +4834,49 @@ const ListeningLab = ({ onSaveWord, onMistake, topics = [] }: any) => {
       <Tooltip tooltip={tooltip} onSave={onSaveWord} onClose={() => setTooltip(null)} />
       <div className="flex-1 overflow-y-auto p-6">
         {!data ? (
-          <div className="space-y-4"><h3 className="text-sm font-bold text-slate-400">今日精选</h3><div className="flex flex-wrap gap-2">{topics.map((t: string) => <button key={t} onClick={() => generateLesson(t)} className="bg-white border border-slate-200 px-4 py-2 rounded-full text-sm hover:border-indigo-400">{t}</button>)}</div>{loading && <div className="text-center py-10"><RefreshCw className="animate-spin inline mr-2" />生成中...</div>}</div>
+          <div className="space-y-4"><div className="flex bg-white border border-indigo-100 rounded-full p-1 w-fit text-sm font-bold">{(Object.keys(LESSON_FORMAT_LABELS) as (keyof typeof LESSON_FORMAT_LABELS)[]).map(f => <button key={f} onClick={() => setFormat(f)} className={`px-4 py-1.5 rounded-full ${format === f ? 'bg-indigo-600 text-white' : 'text-slate-500'}`}>{LESSON_FORMAT_LABELS[f]}</button>)}</div><h3 className="text-sm font-bold text-slate-400">今日精选</h3><div className="flex flex-wrap gap-2">{topics.map((t: string) => <button key={t} disabled={loading} onClick={() => generateLesson(t)} className="bg-white border border-slate-200 px-4 py-2 rounded-full text-sm hover:border-indigo-400">{t}</button>)}</div>{loading && <div className="text-center py-10"><RefreshCw className="animate-spin inline mr-2" />生成中...</div>}<ErrorBanner message={error} /></div>
         ) : (
           <div className="space-y-6 pb-10">
+            {audioUrl && <audio ref={player.audioRef} src={audioUrl} onEnded={player.onEnded} controls={!timings.length} className={timings.length ? "hidden" : "w-full"} />}
+            {timings.length > 0 && (
+              <div className="flex bg-white border border-indigo-100 p-1 rounded-lg text-xs font-bold">
+                <button onClick={() => setMode('quiz')} className={`flex-1 py-2 rounded-md transition-all ${mode === 'quiz' ? 'bg-indigo-600 text-white' : 'text-slate-400'}`}>理解测验</button>
+                <button onClick={() => setMode('dictation')} className={`flex-1 py-2 rounded-md transition-all ${mode === 'dictation' ? 'bg-indigo-600 text-white' : 'text-slate-400'}`}>逐句听写</button>
+              </div>
+            )}
+            {mode === 'dictation' ? <>
+            <DictationPanel player={player} onSaveWord={onSaveWord} onMistake={onMistake} onAnswer={onAnswer} onActivity={onActivity} />
+            <button onClick={() => onOpenLesson(null)} className="w-full bg-white border py-3 rounded-xl">返回</button>
+            </> : <>
             <div className="bg-white p-6 rounded-2xl shadow-sm border border-indigo-100 flex flex-col items-center gap-4">
-              {audioUrl && <><audio ref={audioRef} src={audioUrl} onEnded={() => setIsPlaying(false)} className="hidden" /><button onClick={() => { if (isPlaying) audioRef.current?.pause(); else audioRef.current?.play(); setIsPlaying(!isPlaying); }} className="bg-indigo-600 text-white w-16 h-16 rounded-full flex items-center justify-center shadow-lg">{isPlaying ? <Pause size={32} /> : <Play size={32} className="ml-1" />}</button></>}
-              <details className="w-full mt-2"><summary className="text-sm text-indigo-500 font-bold cursor-pointer text-center list-none mb-2">查看原文</summary><div className="text-slate-600 text-lg p-4 bg-slate-50 rounded-xl font-serif"><InteractiveText text={data.story} /></div></details>
+              {audioUrl && timings.length > 0 && <SentencePlayer player={player} />}
+              <details className="w-full mt-2">
+                <summary className="text-sm text-indigo-500 font-bold cursor-pointer text-center list-none mb-2">查看原文</summary>
+                <div className="text-slate-600 text-lg p-4 bg-slate-50 rounded-xl font-serif leading-relaxed">
+                  {data.dialogue ? (
+                    <div className="space-y-3">
+                      {(timings.length ? speakerTurns(timings) : data.dialogue.lines.map(l => ({ speaker: l.speaker, items: [{ text: l.text, index: -1 }] }))).map((turn, ti) => (
+                        <div key={ti} className="flex gap-2 items-start">
+                          <span className={`shrink-0 mt-1.5 text-[10px] font-bold font-sans px-2 py-0.5 rounded-full ${SPEAKER_STYLES[Math.max(0, data.dialogue!.speakers.findIndex(sp => sp.name === turn.speaker))]}`}>{turn.speaker}</span>
+                          <p>{turn.items.map(item => item.index < 0 ? <span key={ti}><InteractiveText text={item.text} /></span> : (
+                            <span key={item.index} className={`rounded transition-colors ${item.index === player.current ? 'bg-indigo-100 text-indigo-900' : ''}`}>
+                              <button onClick={() => player.playSentence(item.index)} className="inline-flex align-middle text-indigo-300 hover:text-indigo-600 mr-0.5"><Play size={12} /></button>
+                              <InteractiveText text={item.text} />{" "}
+                            </span>
+                          ))}</p>
+                        </div>
+                      ))}
+                    </div>
+                  ) : timings.length ? timings.map((t, i) => (
+                    <span key={i} className={`rounded transition-colors ${i === player.current ? 'bg-indigo-100 text-indigo-900' : ''}`}>
+                      <button onClick={() => player.playSentence(i)} className="inline-flex align-middle text-indigo-300 hover:text-indigo-600 mr-0.5"><Play size={12} /></button>
+                      <InteractiveText text={t.text} />{" "}
+                    </span>
+                  )) : <InteractiveText text={data.story} />}
+                </div>
+              </details>
             </div>
-            {data.questions.map((q: any) => (
+            {data.questions.map((q) => (
               <div key={q.id} className="bg-white p-5 rounded-xl border border-slate-200 shadow-sm">
                 <p className="font-medium text-slate-800 mb-4">{q.text}</p>
                 <div className="grid gap-2">{q.options.map((opt: string) => {
@@ -792,7 +4893,8 @@ const ListeningLab = ({ onSaveWord, onMistake, topics = [] }: any) => {
                 {result && <div className={`mt-3 text-xs font-bold ${result[q.id] ? "text-emerald-600" : "text-rose-600"}`}>{result[q.id] ? "正确" : `错误，解析: ${q.explanation}`}</div>}
               </div>
             ))}
-            <div className="flex gap-3"><button onClick={() => setData(null)} className="flex-1 bg-white border py-3 rounded-xl">返回</button><button onClick={checkAnswers} disabled={Object.keys(answers).length < 5} className="flex-[2] bg-slate-800 text-white py-3 rounded-xl">提交</button></div>
+            <div className="flex gap-3"><button onClick={() => onOpenLesson(null)} className="flex-1 bg-white border py-3 rounded-xl">返回</button><button onClick={checkAnswers} disabled={Object.keys(answers).length < data.questions.length} className="flex-[2] bg-slate-800 text-white py-3 rounded-xl">提交</button></div>
+            </>}
           </div>
         )}
       </div>
@@ -802,67 +4904,120 @@ const ListeningLab = ({ onSaveWord, onMistake, topics = [] }: any) => {
 
 // --- Translation Coach ---
 
-const TranslationCoach = ({ onMistake, topics = [] }: any) => {
-  const [exercises, setExercises] = useState<any[]>([]);
+const DIRECTION_LABELS: Record<TranslationDirection, string> = { 'cn-en': "中 → 英", 'en-cn': "英 → 中" };
+
+type ExerciseResult = { exercise: Exercise; userAnswer: any; judged: JudgedAnswer };
+
+const TranslationCoach = ({ lessonId = null, onOpenLesson, onMistake, onAnswer, onActivity, profile, topics = [] }: any) => {
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+  const [setId, setSetId] = useState<string | null>(null);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [loading, setLoading] = useState(false);
   const [userAnswer, setUserAnswer] = useState<any>("");
-  const [feedback, setFeedback] = useState<any>(null);
+  const [feedback, setFeedback] = useState<JudgedAnswer | null>(null);
+  const [direction, setDirection] = useState<TranslationDirection>('cn-en');
+  const [topic, setTopic] = useState("");
+  // Judged answers of the current set; once every exercise is done the summary replaces the exercise view
+  const [results, setResults] = useState<ExerciseResult[]>([]);
+  const [finished, setFinished] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  const generateExercises = async (topic: string) => {
-    setLoading(true); setExercises([]); setCurrentIndex(0); setFeedback(null); setUserAnswer("");
+  const generateExercises = async (nextTopic: string) => {
+    setLoading(true); setExercises([]); setCurrentIndex(0); setFeedback(null); setUserAnswer(""); setResults([]); setFinished(false); setError(null); setTopic(nextTopic);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const prompt = `Generate exactly 5 translation exercises about "${topic}": 2 single choice (CN-EN), 1 multiple choice (CN-EN), 1 blank (EN with _____, provide CN hint), 1 full sentence (CN-EN). Return JSON array of objects with { "type": "single"|"multi"|"blank"|"full", "src": "...", "options": ["A:...", ...], "answer": "A"|["A",...]| "word"|"full text", "hint": "..." }`;
-      const result = await ai.models.generateContent({ model: "gemini-3-flash-preview", contents: prompt, config: { responseMimeType: "application/json" } });
-      setExercises(JSON.parse(result.text || "[]"));
-    } catch { alert("生成失败"); } finally { setLoading(false); }
+      const level = profile.level as CEFRLevel;
+      const prompt = direction === 'en-cn'
+        ? `Generate exactly 5 English-to-Chinese translation exercises about "${nextTopic}": mostly "full" items where "src" is an English sentence and "answer" a natural Chinese reference translation, plus at most one "single" item whose options are Chinese translations. ${profilePrompt(profile)} Return JSON array of objects with ${EXERCISE_FORMAT}`
+        : `Generate exactly 5 translation exercises about "${nextTopic}": ${EXERCISE_MIX[level]}. ${profilePrompt(profile)} Return JSON array of objects with ${EXERCISE_FORMAT}`;
+      const generated = (await generateValidated(prompt, 'translationExercises', ExerciseListSchema)).map(e => ({ ...e, direction }));
+      const id = await saveLesson({ id: newLessonId(), module: 'translation', createdAt: Date.now(), topic: nextTopic, direction, exercises: generated });
+      setSetId(id);
+      setExercises(generated);
+      onOpenLesson(id);
+    } catch (e) { setError(describeError(e)); } finally { setLoading(false); }
+  };
+
+  const startSet = (id: string, nextTopic: string, nextExercises: Exercise[]) => {
+    setSetId(id); setTopic(nextTopic); setExercises(nextExercises);
+    setCurrentIndex(0); setFeedback(null); setUserAnswer(""); setResults([]); setFinished(false);
   };
 
   const checkAnswer = async () => {
     const current = exercises[currentIndex];
-    setLoading(true);
+    setLoading(true); setError(null);
     try {
-      let isCorrect = false, explanation = "";
-      if (current.type === 'single') isCorrect = userAnswer === current.answer;
-      else if (current.type === 'multi') isCorrect = JSON.stringify([...(userAnswer || [])].sort()) === JSON.stringify([...(current.answer || [])].sort());
-      else if (current.type === 'blank') isCorrect = userAnswer.trim().toLowerCase() === current.answer.trim().toLowerCase();
-      else {
-         const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-         const resp = await ai.models.generateContent({ 
-           model: 'gemini-3-flash-preview', 
-           contents: `Judge translation from CN: "${current.src}" to EN: "${userAnswer}". Compare with reference: "${current.answer}". Return JSON { "correct": boolean, "explanation": "Brief CN explanation of mistakes" }`, 
-           config: { responseMimeType: "application/json" } 
-         });
-         const judge = JSON.parse(resp.text || "{}");
-         isCorrect = judge.correct; explanation = judge.explanation;
-      }
-      const finalExp = isCorrect ? "回答正确！" : `${explanation || "翻译存在差异。"}\n\n正确的完整翻译: \n"${Array.isArray(current.answer) ? current.answer.join(", ") : current.answer}"`;
-      setFeedback({ correct: isCorrect, explanation: finalExp });
-      if (!isCorrect) onMistake({ question: current.src, userAnswer: String(userAnswer), correctAnswer: String(current.answer), explanation: finalExp, type: 'translation' });
-    } catch { alert("校验失败"); } finally { setLoading(false); }
+      const judged = await judgeExercise(current, userAnswer);
+      setFeedback(judged);
+      setResults(prev => [...prev, { exercise: current, userAnswer, judged }]);
+      onAnswer('translation', judged.correct);
+      if (!judged.correct) onMistake({ question: current.src, userAnswer: String(userAnswer), correctAnswer: String(current.answer), explanation: judged.explanation, type: 'translation' });
+    } catch (e) { setError(describeError(e)); } finally { setLoading(false); }
   };
 
+  const next = () => {
+    if (currentIndex < exercises.length - 1) { setCurrentIndex(currentIndex + 1); setUserAnswer(""); setFeedback(null); return; }
+    onActivity({ module: 'translation', kind: 'lesson', correct: results.filter(r => r.judged.correct).length, total: exercises.length });
+    setFinished(true);
+  };
+
+  const leave = () => { setSetId(null); setExercises([]); setResults([]); setFinished(false); };
+
+  useRoutedLesson('translation', lessonId, setId,
+    lesson => { setDirection(lesson.direction); startSet(lesson.id, lesson.topic, lesson.exercises); },
+    leave,
+    () => { setError(missingLessonMessage("这组练习")); onOpenLesson(null, true); });
+
+  const rubrics = results.map(r => r.judged.rubric).filter((r): r is TranslationRubric => !!r);
+  const averageRubric = (key: keyof typeof RUBRIC_LABELS) => Math.round(rubrics.reduce((sum, r) => sum + r[key], 0) / rubrics.length);
+
   return (
     <div className="h-full flex flex-col bg-blue-50/50">
       <header className="bg-white border-b border-blue-100 p-4 sticky top-0 z-10 flex items-center gap-2"><Languages size={20} className="text-blue-500" /><h2 className="font-bold text-slate-800">翻译特训</h2></header>
       <div className="flex-1 overflow-y-auto p-6">
         {exercises.length === 0 ? (
-          <div className="space-y-4"><h3 className="text-sm font-bold text-slate-400">今日专项</h3><div className="flex flex-wrap gap-2">{topics.map((t: string) => <button key={t} onClick={() => generateExercises(t)} className="bg-white border border-slate-200 px-4 py-2 rounded-full text-sm hover:border-blue-400">{t}</button>)}</div>{loading && <div className="text-center py-10">出题中...</div>}</div>
-        ) : (
+          <div className="space-y-4">
+            <div className="flex bg-white border border-slate-200 rounded-full p-1 w-fit text-sm font-bold">
+              {(Object.keys(DIRECTION_LABELS) as TranslationDirection[]).map(d => <button key={d} onClick={() => setDirection(d)} className={`px-4 py-1.5 rounded-full ${direction === d ? 'bg-blue-600 text-white' : 'text-slate-500'}`}>{DIRECTION_LABELS[d]}</button>)}
+            </div>
+            <h3 className="text-sm font-bold text-slate-400">今日专项</h3><div className="flex flex-wrap gap-2">{topics.map((t: string) => <button key={t} onClick={() => generateExercises(t)} className="bg-white border border-slate-200 px-4 py-2 rounded-full text-sm hover:border-blue-400">{t}</button>)}</div>{loading && <div className="text-center py-10">出题中...</div>}<ErrorBanner message={error} />
+          </div>
+        ) : finished ? (
           <div className="max-w-sm mx-auto space-y-6">
-            <div className="bg-white p-6 rounded-2xl shadow-md border border-slate-100">
-               <h3 className="text-xl font-medium text-slate-800 mb-8 font-serif">{exercises[currentIndex].src}</h3>
-               {['single', 'multi'].includes(exercises[currentIndex].type) && <div className="space-y-3">{exercises[currentIndex].options.map((opt: string) => {
-                 const label = opt.split(":")[0];
-                 const isSel = exercises[currentIndex].type === 'multi' ? (userAnswer || []).includes(label) : userAnswer === label;
-                 return <button key={opt} onClick={() => { if (feedback) return; if (exercises[currentIndex].type === 'multi') { const cur = userAnswer || []; setUserAnswer(cur.includes(label) ? cur.filter((i: any) => i !== label) : [...cur, label]); } else setUserAnswer(label); }} className={`w-full text-left p-4 rounded-xl border transition-all ${isSel ? "bg-blue-600 text-white" : "bg-white text-slate-600"}`}>{opt}</button>;
-               })}</div>}
-               {exercises[currentIndex].type === 'blank' && <input value={userAnswer} onChange={e => setUserAnswer(e.target.value)} disabled={!!feedback} placeholder="输入单词..." className="w-full border-b-2 py-3 outline-none" />}
-               {exercises[currentIndex].type === 'full' && <textarea value={userAnswer} onChange={e => setUserAnswer(e.target.value)} disabled={!!feedback} placeholder="输入完整翻译..." className="w-full bg-slate-50 border p-4 rounded-xl h-32 resize-none" />}
+            <div className="bg-white p-6 rounded-2xl shadow-md border border-slate-100 text-center">
+              <p className="text-xs text-slate-400 mb-1">{topic} · {DIRECTION_LABELS[exercises[0].direction || 'cn-en']}</p>
+              <p className="text-4xl font-bold text-blue-600">{results.filter(r => r.judged.correct).length}<span className="text-lg text-slate-400"> / {exercises.length}</span></p>
+              <p className="text-sm text-slate-500 mt-1">本组答对</p>
+            </div>
+            {rubrics.length > 0 && (
+              <div className="bg-white p-5 rounded-2xl shadow-sm border border-slate-100 text-slate-700">
+                <h3 className="text-sm font-bold mb-3">整句翻译平均分</h3>
+                <RubricBars rubric={{ accuracy: averageRubric('accuracy'), grammar: averageRubric('grammar'), naturalness: averageRubric('naturalness'), wordChoice: averageRubric('wordChoice'), better: "", explanation: "" }} />
+              </div>
+            )}
+            <div className="space-y-2">
+              {results.map((r, i) => (
+                <div key={i} className="bg-white p-4 rounded-xl border border-slate-100 text-sm flex gap-3">
+                  <span className={`shrink-0 font-bold ${r.judged.correct ? 'text-emerald-600' : 'text-rose-500'}`}>{r.judged.rubric ? rubricScore(r.judged.rubric) : r.judged.correct ? "✓" : "✗"}</span>
+                  <div className="min-w-0">
+                    <p className="text-slate-800">{r.exercise.src}</p>
+                    <p className="text-slate-500 text-xs mt-1">你的答案：{Array.isArray(r.userAnswer) ? r.userAnswer.join(", ") : r.userAnswer}</p>
+                    {!r.judged.correct && <p className="text-emerald-700 text-xs mt-0.5">参考：{Array.isArray(r.exercise.answer) ? r.exercise.answer.join(", ") : r.exercise.answer}</p>}
+                  </div>
+                </div>
+              ))}
             </div>
-            {feedback && <div className={`p-5 rounded-xl border ${feedback.correct ? "bg-emerald-50 text-emerald-800" : "bg-rose-50 text-rose-800"}`}><p className="text-sm leading-relaxed whitespace-pre-wrap">{feedback.explanation}</p></div>}
-            {!feedback ? <button onClick={checkAnswer} disabled={!userAnswer || loading} className="w-full bg-slate-800 text-white py-4 rounded-xl shadow-lg">{loading ? "检查中..." : "核对答案"}</button> : <button onClick={() => { if (currentIndex < exercises.length - 1) { setCurrentIndex(currentIndex + 1); setUserAnswer(""); setFeedback(null); } else setExercises([]); }} className="w-full bg-blue-600 text-white py-4 rounded-xl shadow-lg">{currentIndex < exercises.length - 1 ? "下一题" : "完成"}</button>}
+            <div className="grid grid-cols-2 gap-3">
+              <button onClick={() => onOpenLesson(null)} className="bg-white border border-slate-200 text-slate-600 py-4 rounded-xl">返回</button>
+              <button onClick={() => generateExercises(topic)} disabled={loading} className="bg-blue-600 text-white py-4 rounded-xl shadow-lg">{loading ? "出题中..." : "再练一组"}</button>
+            </div>
+          </div>
+        ) : (
+          <div className="max-w-sm mx-auto space-y-6">
+            <p className="text-xs text-slate-400 text-center">{currentIndex + 1} / {exercises.length}</p>
+            <ExerciseInput exercise={exercises[currentIndex]} userAnswer={userAnswer} setUserAnswer={setUserAnswer} locked={!!feedback} />
+            <ErrorBanner message={error} />
+            {feedback && <ExerciseFeedback feedback={feedback} />}
+            {!feedback ? <button onClick={checkAnswer} disabled={!userAnswer || loading} className="w-full bg-slate-800 text-white py-4 rounded-xl shadow-lg">{loading ? "检查中..." : "核对答案"}</button> : <button onClick={next} className="w-full bg-blue-600 text-white py-4 rounded-xl shadow-lg">{currentIndex < exercises.length - 1 ? "下一题" : "查看总结"}</button>}
           </div>
         )}
       </div>
@@ -872,36 +5027,294 @@ const TranslationCoach = ({ onMistake, topics = [] }: any) => {
 
 // --- Reading Gym ---
 
-const ReadingGym = ({ onSaveWord, featuredArticles = [] }: any) => {
-  const [article, setArticle] = useState<any>(null);
+const READING_QUESTION_COUNT = 4;
+
+const READING_QUESTION_LABELS: Record<ReadingQuestionType, string> = { 'main-idea': "主旨", detail: "细节", inference: "推断", vocabulary: "词义" };
+
+const READING_QUESTION_PROMPT = `Write ${READING_QUESTION_COUNT} multiple-choice comprehension questions mixing the types "main-idea", "detail", "inference" and "vocabulary" (at least one main-idea and one detail), each with 4 options labelled "A: ...", "B: ..." etc. and a Chinese explanation`;
+
+// Longer texts are cut at a paragraph boundary, or mid-paragraph at a sentence end when the first
+// paragraph alone is too long, so prompts stay within a sensible size.
+const MAX_IMPORT_CHARS = 8000;
+
+const IMPORT_EXTENSIONS = ".txt,.md,.markdown,.html,.htm";
+
+const HTML_BLOCKS = "h1, h2, h3, h4, h5, h6, p, li, blockquote, pre";
+
+function htmlToArticle(html: string) {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  doc.querySelectorAll("script, style, noscript, nav, header, footer, aside, form, figure").forEach(el => el.remove());
+  const title = doc.querySelector("h1")?.textContent?.trim() || doc.title.trim();
+  const root = doc.querySelector("article, main") || doc.body;
+  // Only leaf blocks, so a <li> holding a <p> isn't read twice.
+  const blocks = Array.from(root.querySelectorAll(HTML_BLOCKS))
+    .filter(el => !el.querySelector(HTML_BLOCKS))
+    .map(el => (el.textContent || "").replace(/\s+/g, " ").trim())
+    .filter(t => t && t !== title);
+  return { title, content: blocks.length ? blocks.join("\n\n") : (root.textContent || "").trim() };
+}
+
+function markdownToArticle(md: string) {
+  const text = md
+    .replace(/^---\n[\s\S]*?\n---\n/, "")
+    .replace(/```[\s\S]*?```/g, "")
+    .replace(/<[^>]+>/g, "");
+  const title = text.match(/^#\s+(.+)$/m)?.[1].trim() || "";
+  const content = text
+    .replace(/^#\s+.+$/m, "")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, "")
+    .replace(/(\*\*|__|\*|_|`)(.+?)\1/g, "$2")
+    .replace(/^\s*([-*_]\s*){3,}$/gm, "");
+  return { title, content };
+}
+
+// Cuts `text` to at most `max` characters, at the last sentence end if there's one in the second half.
+function truncateAtSentence(text: string, max: number) {
+  if (text.length <= max) return text;
+  const head = text.slice(0, max);
+  const sentenceEnd = [...head.matchAll(/[.!?]["'”’)]*(?=\s)/g)].pop();
+  const end = sentenceEnd && sentenceEnd.index! > max / 2 ? sentenceEnd.index! + sentenceEnd[0].length : head.lastIndexOf(" ");
+  return head.slice(0, end > 0 ? end : max).trim();
+}
+
+// Reads a pasted text or local file into a title and blank-line-separated paragraphs.
+// `name` is the file name ("" for pasted text); a `title` the user typed wins over any found in the text.
+function parseArticleText(name: string, raw: string, title = "") {
+  const ext = name.toLowerCase().split(".").pop();
+  const looksHtml = ext === 'html' || ext === 'htm' || (!ext && /^\s*<(!doctype|html)/i.test(raw));
+  const parsed = looksHtml ? htmlToArticle(raw) : ext === 'md' || ext === 'markdown' ? markdownToArticle(raw) : { title: "", content: raw };
+  let paragraphs = parsed.content.replace(/\r\n?/g, "\n").split(/\n\s*\n/).map(p => p.replace(/\s*\n\s*/g, " ").trim()).filter(Boolean);
+  title = title || parsed.title;
+  // A short first line without closing punctuation is almost always a heading.
+  if (!title && paragraphs.length > 1 && paragraphs[0].length < 80 && !/[.!?"”]$/.test(paragraphs[0])) title = paragraphs.shift()!;
+  let length = 0;
+  paragraphs = paragraphs.filter(p => (length += p.length) <= MAX_IMPORT_CHARS || length === p.length);
+  // Text without blank lines arrives as one paragraph, which the filter above always keeps.
+  if (paragraphs.length) paragraphs[0] = truncateAtSentence(paragraphs[0], MAX_IMPORT_CHARS);
+  return { title: title || name.replace(/\.[^.]+$/, "") || "我的文章", content: paragraphs.join("\n\n") };
+}
+
+// Pre-reading lists stop here; past this the estimate is the useful part, not the list.
+const MAX_PREVIEW_WORDS = 20;
+const PREVIEW_LOOKUP_CONCURRENCY = 2;
+
+const ReadingGym = ({ lessonId = null, onOpenLesson, words = [], onSaveWord, onAnswer, onActivity, profile, featuredArticles = [] }: any) => {
+  const [article, setArticle] = useState<ReadingArticle | null>(null);
+  const [articleId, setArticleId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const [showAns, setShowAns] = useState(false);
-  const { tooltip, setTooltip, InteractiveText } = useWordLookup(onSaveWord);
+  const [answers, setAnswers] = useState<(number | null)[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [importText, setImportText] = useState("");
+  const [importName, setImportName] = useState("");
+  const [simplify, setSimplify] = useState(false);
+  // Per-paragraph Chinese translations, fetched the first time each one is opened
+  const [translations, setTranslations] = useState<Record<number, string>>({});
+  const [openTranslations, setOpenTranslations] = useState<Set<number>>(new Set());
+  // The pre-reading vocabulary panel, shown until the learner starts reading
+  const [previewing, setPreviewing] = useState(false);
+  const [skippedWords, setSkippedWords] = useState<Set<string>>(new Set());
+  const [addingWords, setAddingWords] = useState(false);
+  const [addStatus, setAddStatus] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const { tooltip, setTooltip, InteractiveText } = useWordLookup(onSaveWord, 'read');
+  const level = profile.level as CEFRLevel;
+
+  const startReading = (next: ReadingArticle) => {
+    setArticle(next);
+    setAnswers(next.questions.map(() => null));
+    setTranslations({});
+    setOpenTranslations(new Set());
+    setPreviewing(true);
+    setSkippedWords(new Set());
+    setAddStatus(null);
+  };
+
+  // New articles are saved before they're routed to, so the link survives a reload.
+  const openNewArticle = async (next: ReadingArticle) => {
+    const id = await saveLesson({ id: newLessonId(), module: 'reading', createdAt: Date.now(), article: next });
+    setArticleId(id);
+    startReading(next);
+    onOpenLesson(id);
+  };
+
+  useRoutedLesson('reading', lessonId, articleId,
+    lesson => { setArticleId(lesson.id); startReading(lesson.article); },
+    () => { setArticle(null); setArticleId(null); },
+    () => { setError(missingLessonMessage("这篇文章")); onOpenLesson(null, true); });
 
   const generateArticle = async (prompt: string) => {
-    setLoading(true); setArticle(null); setShowAns(false);
+    setLoading(true); setArticle(null); setError(null);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const textResp = await ai.models.generateContent({ model: "gemini-3-flash-preview", contents: `${prompt}. Provide exactly one MC question. Return JSON { "title": "...", "content": "...", "question": "...", "options": ["A:...", ...], "correctIndex": 0, "explanation": "..." }`, config: { responseMimeType: "application/json" } });
-      setArticle(JSON.parse(textResp.text || "{}"));
-    } catch { alert("生成失败"); } finally { setLoading(false); }
+      await openNewArticle(await generateValidated(`${prompt}. Write about ${READING_ARTICLE_WORDS[level]} words in paragraphs separated by blank lines. ${profilePrompt(profile)} ${READING_QUESTION_PROMPT}. Return JSON { "title": "...", "content": "...", "questions": [{ "type": "main-idea", "question": "...", "options": ["A: ...", ...], "correctIndex": 0, "explanation": "..." }] }`, 'readingArticle', ReadingArticleSchema));
+    } catch (e) { setError(describeError(e)); } finally { setLoading(false); }
   };
 
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      const { title, content } = parseArticleText(file.name, await file.text());
+      setImportName(title);
+      setImportText(content);
+    } catch (e) {
+      console.error("Failed to read article file", e);
+      setError("无法读取该文件，请选择 .txt、.md 或 .html 文件。");
+    } finally {
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  };
+
+  const importArticle = async () => {
+    const { title, content: parsedContent } = parseArticleText("", importText, importName.trim());
+    setLoading(true); setArticle(null); setError(null);
+    try {
+      let content = parsedContent;
+      if (simplify) {
+        content = (await getAIProvider().generateText(`Rewrite the following English text for a ${CEFR_LABELS[level]} learner: use simpler words and shorter sentences but keep every fact, the order of ideas and the paragraph breaks (blank lines). Return only the rewritten text.\n\n"""\n${content}\n"""`, 'simplifyText')).trim() || content;
+      }
+      const { questions } = await generateValidated(`Here is an English text titled "${title}":\n\n"""\n${content}\n"""\n\n${profilePrompt(profile)} ${READING_QUESTION_PROMPT}, answerable from the text alone. Return JSON { "questions": [{ "type": "main-idea", "question": "...", "options": ["A: ...", ...], "correctIndex": 0, "explanation": "..." }] }`, 'readingQuestions', ReadingQuestionsSchema);
+      await openNewArticle({ title, content, questions, source: simplify ? "导入 · 已简化" : "导入" });
+    } catch (e) { setError(describeError(e)); } finally { setLoading(false); }
+  };
+
+  const toggleTranslation = async (index: number, paragraph: string) => {
+    const open = !openTranslations.has(index);
+    setOpenTranslations(prev => { const next = new Set(prev); if (open) next.add(index); else next.delete(index); return next; });
+    if (!open || translations[index]) return;
+    try {
+      const text = await getAIProvider().generateText(`Translate the following English paragraph to Chinese: "${paragraph}". Just the translation.`, 'translate');
+      setTranslations(prev => ({ ...prev, [index]: text.trim() }));
+    } catch (e) {
+      setOpenTranslations(prev => { const next = new Set(prev); next.delete(index); return next; });
+      setError(describeError(e));
+    }
+  };
+
+  const answer = (qIndex: number, choice: number) => {
+    if (!article || answers[qIndex] !== null) return;
+    const next = answers.map((a, i) => i === qIndex ? choice : a);
+    setAnswers(next);
+    onAnswer('reading', choice === article.questions[qIndex].correctIndex);
+    if (next.every(a => a !== null)) {
+      onActivity({ module: 'reading', kind: 'lesson', correct: next.filter((a, i) => a === article.questions[i].correctIndex).length, total: next.length });
+    }
+  };
+
+  const book = useMemo(() => indexWordBook(words), [words]);
+  const wordStatus = (word: string) => {
+    const saved = findSavedWord(book, word);
+    return saved ? isDue(saved) ? 'due' : 'saved' : null;
+  };
+  const estimate = useMemo(() => article ? estimateVocabulary(article.content, level, book) : null, [article, level, book]);
+  const previewWords = estimate ? estimate.newWords.slice(0, MAX_PREVIEW_WORDS) : [];
+  const pickedWords = previewWords.filter(c => !skippedWords.has(c.word));
+
+  // Looks every picked word up (through the shared cache), a couple at a time to stay under
+  // rate limits, and saves it under its dictionary form.
+  const addPreviewWords = async () => {
+    setAddingWords(true); setAddStatus(null);
+    const entries = await mapConcurrent(pickedWords, PREVIEW_LOOKUP_CONCURRENCY, (c: NewWordCandidate) => lookupDictionary(c.word).catch(() => null));
+    const added = new Set<string>();
+    let failed = 0;
+    entries.forEach((entry, i) => {
+      if (!entry) { failed++; return; }
+      if (added.has(entry.lemma.toLowerCase())) return;
+      added.add(entry.lemma.toLowerCase());
+      onSaveWord(entry.lemma, summarizeEntry(entry), { context: pickedWords[i].context, source: 'read', phonetic: entry.phonetic || undefined });
+    });
+    setAddingWords(false);
+    setAddStatus(`已加入 ${added.size} 个单词${failed ? `，${failed} 个查询失败` : ""}`);
+  };
+
+  const paragraphs = article ? article.content.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean) : [];
+  const answered = answers.filter(a => a !== null).length;
+  const correctCount = article ? answers.filter((a, i) => a === article.questions[i].correctIndex).length : 0;
+
   return (
     <div className="h-full flex flex-col bg-amber-50/50">
       <header className="bg-white border-b border-amber-100 p-4 sticky top-0 z-10 flex items-center gap-2"><BookOpen size={20} className="text-amber-500" /><h2 className="font-bold text-slate-800">阅读健身房</h2></header>
       <Tooltip tooltip={tooltip} onSave={onSaveWord} onClose={() => setTooltip(null)} />
       <div className="flex-1 overflow-y-auto p-6">
         {!article ? (
-          <div className="space-y-4"><h3 className="text-sm font-bold text-slate-400">刊物推荐</h3>{featuredArticles.map((art: any) => <button key={art.id} onClick={() => generateArticle(art.prompt)} className="w-full bg-white p-5 rounded-xl border text-left shadow-sm"><div><span className="bg-amber-100 text-amber-700 text-[10px] font-bold px-2 py-1 rounded-full">{art.source}</span></div><h4 className="font-bold mt-2">{art.title}</h4></button>)}{loading && <div className="text-center py-10">AI 正在撰稿...</div>}</div>
+          <div className="space-y-4">
+            <h3 className="text-sm font-bold text-slate-400">刊物推荐</h3>
+            {featuredArticles.map((art: any) => <button key={art.id} disabled={loading} onClick={() => generateArticle(art.prompt)} className="w-full bg-white p-5 rounded-xl border text-left shadow-sm"><div><span className="bg-amber-100 text-amber-700 text-[10px] font-bold px-2 py-1 rounded-full">{art.source}</span></div><h4 className="font-bold mt-2">{art.title}</h4></button>)}
+            <h3 className="text-sm font-bold text-slate-400 pt-2">导入我的文章</h3>
+            <div className="bg-white p-5 rounded-xl border shadow-sm space-y-3">
+              <input value={importName} onChange={e => setImportName(e.target.value)} placeholder="标题（可选）" className="w-full border border-slate-200 rounded-lg px-3 py-2 text-sm" />
+              <textarea value={importText} onChange={e => setImportText(e.target.value)} placeholder="粘贴英文文章，段落之间空一行…" rows={6} className="w-full border border-slate-200 rounded-lg px-3 py-2 text-sm font-serif resize-y" />
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <button onClick={() => fileRef.current?.click()} className="bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 font-bold flex items-center gap-1"><Upload size={14} /> 打开文件</button>
+                <label className="flex items-center gap-1.5 text-slate-600"><input type="checkbox" checked={simplify} onChange={e => setSimplify(e.target.checked)} /> 简化到 {level} 水平</label>
+              </div>
+              <input ref={fileRef} type="file" accept={IMPORT_EXTENSIONS} className="hidden" onChange={e => { const f = e.target.files?.[0]; if (f) handleFile(f); }} />
+              <button onClick={importArticle} disabled={loading || importText.trim().length < 50} className="w-full bg-amber-500 text-white font-bold rounded-lg py-2.5 disabled:opacity-40">开始阅读</button>
+            </div>
+            {loading && <div className="text-center py-10">AI 正在撰稿...</div>}
+            <ErrorBanner message={error} />
+          </div>
         ) : (
           <div className="space-y-8 pb-10">
-            <button onClick={() => setArticle(null)} className="text-sm text-slate-500 flex items-center gap-1">← 返回</button>
-            <article><h1 className="text-2xl font-bold mb-4 font-serif">{article.title}</h1><div className="bg-white p-6 rounded-2xl shadow-sm border text-xl leading-10 font-serif"><InteractiveText text={article.content || article.article} /></div></article>
-            <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200">
-              <h3 className="font-bold mb-4">阅读理解</h3><p className="mb-4 text-lg">{article.question}</p>
-              <div className="space-y-3">{article.options.map((opt: string, idx: number) => <button key={idx} onClick={() => setShowAns(true)} className={`w-full text-left p-4 rounded-xl border transition-all ${showAns ? idx === article.correctIndex ? "bg-emerald-50 text-emerald-700" : "bg-slate-50 text-slate-400" : "bg-white"}`}>{opt}</button>)}</div>
-              {showAns && <div className="mt-4 p-4 bg-blue-50 text-blue-800 rounded-xl text-sm italic">解析: {article.explanation}</div>}
+            <button onClick={() => onOpenLesson(null)} className="text-sm text-slate-500 flex items-center gap-1">← 返回</button>
+            {previewing && estimate && (
+              <div className="bg-white p-5 rounded-2xl shadow-sm border border-amber-200 space-y-3">
+                <div className="flex justify-between items-baseline">
+                  <h3 className="font-bold">阅读前预习</h3>
+                  <span className="text-xs text-slate-400">{level} · {estimate.total} 词</span>
+                </div>
+                <p className="text-sm text-slate-600">预计生词率 <span className="font-bold text-amber-600 text-lg">{estimate.total ? Math.round(estimate.unknown / estimate.total * 100) : 0}%</span>{estimate.saved > 0 && <span className="text-slate-400">，另有 {estimate.saved} 处是生词本里的词</span>}</p>
+                {previewWords.length > 0 ? (
+                  <>
+                    <div className="flex flex-wrap gap-2">
+                      {previewWords.map(c => {
+                        const picked = !skippedWords.has(c.word);
+                        return (
+                          <button key={c.word} title={c.context} onClick={() => setSkippedWords(prev => { const next = new Set(prev); if (picked) next.add(c.word); else next.delete(c.word); return next; })} className={`text-xs font-bold px-2.5 py-1 rounded-full border ${picked ? 'bg-amber-50 border-amber-300 text-amber-800' : 'bg-white border-slate-200 text-slate-400 line-through'}`}>{c.word}</button>
+                        );
+                      })}
+                      {estimate.newWords.length > previewWords.length && <span className="text-xs text-slate-400 self-center">等 {estimate.newWords.length} 个</span>}
+                    </div>
+                    <button onClick={addPreviewWords} disabled={addingWords || pickedWords.length === 0} className="w-full bg-amber-500 text-white font-bold rounded-lg py-2 text-sm flex items-center justify-center gap-1 disabled:opacity-40">
+                      {addingWords ? <><RefreshCw className="animate-spin" size={14} /> 查询中...</> : <><Plus size={14} /> 加入生词本（{pickedWords.length}）</>}
+                    </button>
+                  </>
+                ) : <p className="text-sm text-slate-400">没有发现明显的新词，直接开始吧。</p>}
+                {addStatus && <p className="text-xs text-emerald-600">{addStatus}</p>}
+                <button onClick={() => setPreviewing(false)} className="w-full text-sm font-bold text-slate-500 py-1">开始阅读 →</button>
+              </div>
+            )}
+            <article>
+              {article.source && <span className="bg-amber-100 text-amber-700 text-[10px] font-bold px-2 py-1 rounded-full">{article.source}</span>}
+              <h1 className="text-2xl font-bold mb-4 mt-2 font-serif">{article.title}</h1>
+              {estimate && estimate.saved > 0 && <p className="text-xs text-slate-400 mb-3 flex gap-3"><span className="underline decoration-emerald-400 decoration-dotted decoration-2 underline-offset-4">生词本</span><span className="bg-amber-100 underline decoration-amber-500 decoration-2 underline-offset-4">今日待复习</span></p>}
+              <div className="bg-white p-6 rounded-2xl shadow-sm border space-y-6">
+                {paragraphs.map((para, i) => (
+                  <div key={i}>
+                    <div className="text-xl leading-10 font-serif"><InteractiveText text={para} wordStatus={wordStatus} /></div>
+                    <button onClick={() => toggleTranslation(i, para)} className="text-xs text-amber-600 font-bold mt-1">{openTranslations.has(i) ? "收起译文" : "译"}</button>
+                    {openTranslations.has(i) && <p className="text-sm text-slate-500 leading-relaxed mt-1 border-l-2 border-amber-200 pl-3">{translations[i] || <><RefreshCw className="animate-spin inline mr-1" size={12} />翻译中...</>}</p>}
+                  </div>
+                ))}
+              </div>
+            </article>
+            <ErrorBanner message={error} />
+            <div className="bg-white p-6 rounded-2xl shadow-sm border border-slate-200 space-y-8">
+              <div className="flex justify-between items-baseline">
+                <h3 className="font-bold">阅读理解</h3>
+                <span className="text-xs text-slate-400">{answered === article.questions.length ? `答对 ${correctCount}/${article.questions.length}` : `${answered}/${article.questions.length}`}</span>
+              </div>
+              {article.questions.map((q, qi) => {
+                const chosen = answers[qi];
+                const shown = chosen !== null;
+                return (
+                  <div key={qi}>
+                    <p className="mb-4 text-lg"><span className="text-[10px] font-bold text-amber-700 bg-amber-50 px-1.5 py-0.5 rounded mr-2 align-middle">{READING_QUESTION_LABELS[q.type]}</span>{qi + 1}. {q.question}</p>
+                    <div className="space-y-3">{q.options.map((opt, idx) => <button key={idx} onClick={() => answer(qi, idx)} className={`w-full text-left p-4 rounded-xl border transition-all ${shown ? idx === q.correctIndex ? "bg-emerald-50 text-emerald-700" : idx === chosen ? "bg-rose-50 text-rose-600" : "bg-slate-50 text-slate-400" : "bg-white"}`}>{opt}</button>)}</div>
+                    {shown && <div className="mt-4 p-4 bg-blue-50 text-blue-800 rounded-xl text-sm italic">解析: {q.explanation}</div>}
+                  </div>
+                );
+              })}
             </div>
           </div>
         )}